@@ -7,6 +7,7 @@
 import React, { Suspense, lazy } from 'react';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { NotificationToast } from './components/NotificationToast';
+import { ScriptEditor } from './components/ScriptEditor';
 import { SettingsPanel } from './components/SettingsPanel';
 import { TopBar } from './components/TopBar';
 import { BookProvider, useBook } from './context/BookContext';
@@ -98,6 +99,16 @@ const AppContent: React.FC = () => {
     <div className="comic-shell">
       <TopBar />
       <SettingsPanel />
+      {state.scriptReview && (
+        <ScriptEditor
+          key={state.scriptReview.pageIndex}
+          review={state.scriptReview}
+          heroName={state.hero?.name || 'Hero'}
+          friendName={state.friend?.name || 'Sidekick'}
+          onSubmit={actions.submitScript}
+          onCancel={actions.abortGeneration}
+        />
+      )}
 
       <div className="comic-scene pt-24">
         <NotificationToast
@@ -4,63 +4,167 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import jsPDF from 'jspdf';
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
+import { BranchNavigator } from './components/BranchNavigator';
 import { DirectorInput } from './components/DirectorInput';
+import { EditionSwitcher } from './components/EditionSwitcher';
+import { ScrollReader } from './components/ScrollReader';
 import { useBook } from './context/BookContext';
+import { useSettings } from './context/SettingsContext';
 import { useImagePreload } from './hooks/useImagePreload';
 import { Panel } from './Panel';
-import { TOTAL_PAGES } from './types';
+import { ComicFace, ExportFormat } from './types';
+import { TRUNK_BRANCH_ID, composeBranchPath, getBranchLabel, stashBranchPath } from './utils/branches';
+import { buildCbz, getExtension } from './utils/cbz';
+import { buildIssueRecap, getIssueTitle } from './utils/continuity';
+import { downloadBlob } from './utils/download';
+import { applyEdition, getActiveEdition } from './utils/editions';
+import { buildEpub } from './utils/epub';
+import { getIssueLayout } from './utils/issueLayout';
+import { flattenPages } from './utils/lettering';
+import { packStripSlices, renderLongStrip } from './utils/longStrip';
+import { buildPdf } from './utils/pdfExport';
+import { getReadingDirection } from './utils/readingDirection';
 
 export const Book: React.FC = () => {
     const { state, actions } = useBook();
+    const { settings } = useSettings();
+    const { totalPages } = getIssueLayout(state.config);
+    // Flip through the 3D book, or scroll the pages as one long strip
+    const [viewMode, setViewMode] = useState<'book' | 'scroll'>('book');
+
+    // Pages as read: the original, or with a translated edition's text in place
+    const activeEdition = getActiveEdition(state);
+    const displayFaces = useMemo(() => applyEdition(state.comicFaces, activeEdition), [state.comicFaces, activeEdition]);
+    const direction = getReadingDirection(state.config, activeEdition?.language);
 
     // Memoized map for faster lookup - only recompute when faces change meaningfully
     const pageMap = useMemo(() => {
         const map = new Map<number, typeof state.comicFaces[number]>();
-        state.comicFaces.forEach(face => {
+        displayFaces.forEach(face => {
             if (typeof face.pageIndex === 'number') {
                 map.set(face.pageIndex, face);
             }
         });
         return map;
-    }, [state.comicFaces]);
+    }, [displayFaces]);
 
     // Preload upcoming page images for better mobile performance
     const upcomingPageUrls = useMemo(() => {
         const urls: (string | undefined)[] = [];
         const currentPage = state.currentSheetIndex * 2;
         // Preload next 4 pages
-        for (let i = currentPage; i < Math.min(currentPage + 4, TOTAL_PAGES + 1); i++) {
+        for (let i = currentPage; i < Math.min(currentPage + 4, totalPages + 1); i++) {
             const face = pageMap.get(i);
             if (face?.imageUrl) {
                 urls.push(face.imageUrl);
             }
         }
         return urls;
-    }, [state.currentSheetIndex, pageMap]);
+    }, [state.currentSheetIndex, pageMap, totalPages]);
 
     useImagePreload(upcomingPageUrls);
 
     useImagePreload(upcomingPageUrls);
 
-    // PDF Generation - memoize heavy operations
-    const downloadPDF = useCallback(() => {
-        const PAGE_WIDTH = 480;
-        const PAGE_HEIGHT = 720;
-        const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: [PAGE_WIDTH, PAGE_HEIGHT] });
-        
-        // Pre-filter and sort only completed pages
-        const pagesToPrint = state.comicFaces
-          .filter(face => face.imageUrl && !face.isLoading)
-          .sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0));
-
-        pagesToPrint.forEach((face, index) => {
-            if (index > 0) doc.addPage([PAGE_WIDTH, PAGE_HEIGHT], 'portrait');
-            if (face.imageUrl) doc.addImage(face.imageUrl, 'JPEG', 0, 0, PAGE_WIDTH, PAGE_HEIGHT);
-        });
-        doc.save('Infinite-Heroes-Issue.pdf');
-    }, [state.comicFaces]);
+    // Alternate branches and editions get their own file name so they don't overwrite the main story
+    const getExportName = useCallback((branchId: string, language: string | null) => {
+        const branch = state.branches.find(b => b.id === branchId);
+        const suffix = branch && branch.id !== TRUNK_BRANCH_ID
+            ? `-${getBranchLabel(branch).replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '')}`
+            : '';
+        return `Infinite-Heroes-Issue${suffix}${language ? `-${language}` : ''}`;
+    }, [state.branches]);
+
+    // PDF Generation - page size, compression, range and metadata come from the export settings
+    const savePDF = useCallback(async (faces: ComicFace[], branchId: string, language: string | null) => {
+        const pdfLanguage = language ?? state.config.language;
+        try {
+            const doc = await buildPdf(faces, {
+                quality: settings.pdfQuality,
+                range: settings.defaultExportRange,
+                includeMetadata: settings.includeMetadata,
+                direction: getReadingDirection(state.config, pdfLanguage),
+                title: getIssueTitle(state.config, state.hero),
+                language: pdfLanguage,
+                author: state.config.textModel,
+                genre: state.config.genre === 'Custom' ? undefined : state.config.genre,
+                summary: buildIssueRecap(faces),
+            });
+            doc.save(`${getExportName(branchId, language)}.pdf`);
+        } catch (error) {
+            console.error('[PDF Export] Failed', error);
+            actions.addNotification('error', 'Could not build the PDF. Please try again.');
+        }
+    }, [actions, getExportName, settings.pdfQuality, settings.defaultExportRange, settings.includeMetadata, state.config, state.hero]);
+
+    // CBZ for comic reader apps, EPUB for e-readers; both hold the pages as read
+    const downloadArchive = useCallback(async (format: 'cbz' | 'epub') => {
+        const language = activeEdition?.language ?? null;
+        const title = getIssueTitle(state.config, state.hero);
+        const summary = buildIssueRecap(displayFaces);
+        try {
+            const blob = format === 'cbz'
+                ? await buildCbz(await flattenPages(displayFaces, direction, 'CBZ Export'), {
+                    title,
+                    series: state.config.continuity?.seriesTitle,
+                    number: state.config.continuity?.issueNumber,
+                    writer: state.config.textModel,
+                    genre: state.config.genre === 'Custom' ? undefined : state.config.genre,
+                    language: language ?? state.config.language,
+                    summary,
+                    direction,
+                })
+                : await buildEpub(displayFaces, {
+                    identifier: `urn:infinite-heroes:${state.currentIssue?.id ?? 'issue'}:${state.activeBranchId}:${language ?? state.config.language}`,
+                    title,
+                    language: language ?? state.config.language,
+                    creator: state.config.textModel,
+                    description: summary,
+                    direction,
+                });
+            downloadBlob(blob, `${getExportName(state.activeBranchId, language)}.${format}`);
+        } catch (error) {
+            console.error(`[${format.toUpperCase()} Export] Failed`, error);
+            actions.addNotification('error', `Could not build the ${format.toUpperCase()} file. Please try again.`);
+        }
+    }, [actions, activeEdition, displayFaces, direction, getExportName, state.activeBranchId, state.config, state.currentIssue, state.hero]);
+
+    // Long strip for phones and webtoon apps: one tall image, or slices zipped in order
+    const downloadStrip = useCallback(async () => {
+        const name = `${getExportName(state.activeBranchId, activeEdition?.language ?? null)}-strip`;
+        try {
+            const storyFaces = displayFaces.filter(face => face.type === 'story');
+            const pages = await flattenPages(storyFaces, direction, 'Strip Export');
+            const slices = await renderLongStrip(pages.map(page => page.imageUrl), {
+                gutter: settings.stripGutter,
+                maxSliceHeight: settings.stripSliceHeight,
+                format: settings.stripFormat,
+                single: settings.stripSingleImage,
+            });
+            if (slices.length === 1) downloadBlob(slices[0]!, `${name}.${getExtension(slices[0]!.type)}`);
+            else downloadBlob(await packStripSlices(slices), `${name}.zip`);
+        } catch (error) {
+            console.error('[Strip Export] Failed', error);
+            const message = error instanceof Error && error.message.startsWith('STRIP_EMPTY:')
+                ? error.message.replace(/^[A-Z]+_[A-Z_]+: /, '')
+                : 'Could not build the long strip. Please try again.';
+            actions.addNotification('error', message);
+        }
+    }, [actions, activeEdition, direction, displayFaces, getExportName, settings.stripGutter, settings.stripSliceHeight, settings.stripFormat, settings.stripSingleImage, state.activeBranchId]);
+
+    const downloadIssue = useCallback((format: ExportFormat) => {
+        if (format === 'pdf') void savePDF(displayFaces, state.activeBranchId, activeEdition?.language ?? null);
+        else if (format === 'strip') void downloadStrip();
+        else void downloadArchive(format);
+    }, [savePDF, downloadArchive, downloadStrip, displayFaces, state.activeBranchId, activeEdition]);
+
+    const downloadBranchPDF = useCallback((branchId: string) => {
+        const branches = stashBranchPath(state.branches, state.activeBranchId, state.comicFaces);
+        // Exported in the language being read when that branch has the edition too
+        const edition = state.editions.find(e => e.language === state.activeEdition && e.branchId === branchId);
+        void savePDF(applyEdition(composeBranchPath(branches, branchId), edition), branchId, edition?.language ?? null);
+    }, [savePDF, state.branches, state.activeBranchId, state.comicFaces, state.editions, state.activeEdition]);
 
     const handleSheetClick = useCallback((index: number) => {
         if (state.status !== 'reading') return;
@@ -94,7 +198,7 @@ export const Book: React.FC = () => {
 
         const maxGeneratedPage = Math.max(0, ...state.comicFaces.map(f => f.pageIndex || 0));
 
-        for (let i = 2; i <= TOTAL_PAGES; i += 2) {
+        for (let i = 2; i <= totalPages; i += 2) {
             const front = pageMap.get(i);
             const back = pageMap.get(i + 1);
 
@@ -104,11 +208,11 @@ export const Book: React.FC = () => {
         }
 
         return { sheets, maxGeneratedPage };
-    }, [pageMap, state.comicFaces]);
+    }, [pageMap, state.comicFaces, totalPages]);
 
     // 3. Check if we need the Director Sheet
     // It should appear after the last generated page, IF we aren't at the end
-    const isBookFinished = sheetsToRender.maxGeneratedPage >= TOTAL_PAGES;
+    const isBookFinished = sheetsToRender.maxGeneratedPage >= totalPages;
 
     // Pre-calculate isGenerating once instead of inside the loop
     const isGenerating = useMemo(() => 
@@ -124,9 +228,50 @@ export const Book: React.FC = () => {
     // that replaces the 'Empty' or 'Loading' state of the NEXT ungenerated page.
 
     const isSetup = state.status === 'setup';
+    const isScrolling = viewMode === 'scroll' && !isSetup;
 
     return (
-        <div className={`book ${state.currentSheetIndex > 0 ? 'opened' : ''} transition-all duration-1000 ease-in-out`}
+        <>
+        {!isSetup && (
+            <BranchNavigator
+                branches={state.branches}
+                activeBranchId={state.activeBranchId}
+                isGenerating={isGenerating}
+                onSwitch={actions.switchBranch}
+                onDownload={downloadBranchPDF}
+            />
+        )}
+        {!isSetup && state.currentIssue && (
+            <EditionSwitcher
+                originalLanguage={state.config.language}
+                editions={state.editions.filter(edition => edition.branchId === state.activeBranchId)}
+                activeEdition={activeEdition?.language ?? null}
+                isGenerating={isGenerating}
+                onSwitch={actions.switchEdition}
+                onTranslate={(lang) => { void actions.translateIssue(lang); }}
+            />
+        )}
+        {!isSetup && (
+            <button
+                type="button"
+                onClick={() => setViewMode(mode => mode === 'book' ? 'scroll' : 'book')}
+                title={isScrolling ? 'Read as a book, turning pages' : 'Read as one vertical strip, scrolling down'}
+                className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[120] comic-btn bg-white text-black text-xs sm:text-sm font-bold px-3 py-2 touch-manipulation min-h-[44px] sm:min-h-0"
+            >
+                {isScrolling ? '📖 BOOK MODE' : '📜 SCROLL MODE'}
+            </button>
+        )}
+        {isScrolling ? (
+            <ScrollReader
+                faces={displayFaces}
+                gutter={settings.stripGutter}
+                showDirector={!isBookFinished}
+                isGenerating={isGenerating}
+                onContinue={actions.continueStory}
+                onDownload={downloadIssue}
+            />
+        ) : (
+        <div className={`book ${direction} ${state.currentSheetIndex > 0 ? 'opened' : ''} transition-all duration-1000 ease-in-out`}
            style={ isSetup ? { transform: 'translateZ(-600px) translateY(-100px) rotateX(20deg) scale(0.9)', filter: 'blur(6px) brightness(0.7)', pointerEvents: 'none' } : {}}>
           {sheetsToRender.sheets.map((sheet, i) => {
               // Determine logic for Director Mode
@@ -157,7 +302,7 @@ export const Book: React.FC = () => {
                           {showDirectorFront ? (
                               <DirectorInput onContinue={actions.continueStory} isGenerating={isGenerating} />
                           ) : (
-                              <Panel face={sheet.front} allFaces={state.comicFaces} onOpenBook={() => actions.setSheetIndex(1)} onDownload={downloadPDF} />
+                              <Panel face={sheet.front} allFaces={displayFaces} onOpenBook={() => actions.setSheetIndex(1)} onDownload={downloadIssue} />
                           )}
                           <button
                               type="button"
@@ -165,7 +310,7 @@ export const Book: React.FC = () => {
                               aria-label="Turn page"
                               onClick={(event) => handleCornerClick(event, i)}
                           >
-                              <span className="page-turn-icon">↷</span>
+                              <span className="page-turn-icon">{direction === 'rtl' ? '↶' : '↷'}</span>
                               <span className="page-turn-text">Turn</span>
                           </button>
                       </div>
@@ -173,7 +318,7 @@ export const Book: React.FC = () => {
                            {showDirectorBack ? (
                               <DirectorInput onContinue={actions.continueStory} isGenerating={isGenerating} />
                           ) : (
-                              <Panel face={sheet.back} allFaces={state.comicFaces} onOpenBook={() => actions.setSheetIndex(1)} onDownload={downloadPDF} />
+                              <Panel face={sheet.back} allFaces={displayFaces} onOpenBook={() => actions.setSheetIndex(1)} onDownload={downloadIssue} />
                           )}
                           <button
                               type="button"
@@ -181,7 +326,7 @@ export const Book: React.FC = () => {
                               aria-label="Turn page"
                               onClick={(event) => handleCornerClick(event, i)}
                           >
-                              <span className="page-turn-icon">↶</span>
+                              <span className="page-turn-icon">{direction === 'rtl' ? '↷' : '↶'}</span>
                               <span className="page-turn-text">Turn</span>
                           </button>
                       </div>
@@ -189,5 +334,7 @@ export const Book: React.FC = () => {
               );
           })}
       </div>
+        )}
+        </>
     );
 }
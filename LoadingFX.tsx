@@ -6,16 +6,35 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { useBook } from './context/BookContext';
+import { PageProgress } from './types';
 
 const LOADING_FX = ["POW!", "BAM!", "ZAP!", "KRAK!", "SKREEE!", "WHOOSH!", "THWIP!", "BOOM!"];
 
+// What this page is waiting on while other pages of the batch are worked on
+const describePage = (page: PageProgress): string => {
+  switch (page.state) {
+    case 'queued': return 'waiting for its script';
+    case 'writing': return 'writing the script';
+    case 'reviewing': return 'script waiting for your review';
+    case 'casting': return 'casting the sidekick';
+    case 'waiting-ink': return 'script ready, waiting for a free artist';
+    case 'inking': return page.panelCount && page.panelCount > 1 ? `inking panel ${page.panel} of ${page.panelCount}` : 'inking';
+    case 'done': return 'done';
+    case 'failed': return 'failed';
+  }
+};
+
+interface LoadingFXProps {
+  pageIndex?: number; // Page this panel stands in for
+}
+
 interface LogEntry {
   timestamp: number;
   message: string;
   type: 'info' | 'success' | 'error' | 'warning';
 }
 
-export const LoadingFX: React.FC = () => {
+export const LoadingFX: React.FC<LoadingFXProps> = ({ pageIndex }) => {
     const { state, actions } = useBook();
     const [particles, setParticles] = useState<{id: number, text: string, x: string, y: string, rot: number, color: string}[]>([]);
     const [elapsedTime, setElapsedTime] = useState(0);
@@ -32,6 +51,10 @@ export const LoadingFX: React.FC = () => {
 
     // Progress Data from Engine
     const progress = state.loadingProgress;
+    const pageProgress = pageIndex === undefined ? undefined : progress?.pages?.find(page => page.pageIndex === pageIndex);
+    // The script of this page (or whichever is being written) as it streams in
+    const preview = state.jobs.find(job => job.kind === 'beat' && job.status === 'running' && !job.speculative
+      && (pageIndex === undefined || job.pageIndex === pageIndex))?.preview;
 
     // Calculate percentage - default to indeterminate loading if no progress data
     const percentage = progress ? Math.round((progress.current / progress.total) * 100) : 0;
@@ -326,7 +349,11 @@ export const LoadingFX: React.FC = () => {
                                 <span className="text-2xl">🖌️</span>
                                 <div>
                                     <p className="font-comic text-lg text-gray-900 leading-tight">{progress ? progress.label : 'INKING PAGE...'}</p>
-                                    <p className="text-[11px] text-gray-600">{progress?.substep ?? 'AI is sketching outlines and strokes.'}</p>
+                                    {pageProgress ? (
+                                        <p className="text-[11px] font-semibold text-gray-800">Page {pageProgress.pageIndex}: {describePage(pageProgress)}</p>
+                                    ) : (
+                                        <p className="text-[11px] text-gray-600">{progress?.substep ?? 'AI is sketching outlines and strokes.'}</p>
+                                    )}
                                 </div>
                             </div>
                             <div className="flex items-center gap-1">
@@ -348,6 +375,17 @@ export const LoadingFX: React.FC = () => {
                             </div>
                         </div>
 
+                        {preview && (
+                            <div className="bg-yellow-50 border-2 border-black rounded-md px-3 py-2 font-comic text-sm text-gray-900 space-y-1" aria-live="polite">
+                                {preview.caption && (
+                                    <p className="italic">{preview.caption}{!preview.dialogue && <span className="animate-pulse">▌</span>}</p>
+                                )}
+                                {preview.dialogue && (
+                                    <p className="font-bold">“{preview.dialogue}<span className="animate-pulse">▌</span></p>
+                                )}
+                            </div>
+                        )}
+
                         <div className="w-full space-y-1">
                             <div className="w-full h-7 border-[3px] border-black bg-white relative shadow-[3px_3px_0px_rgba(0,0,0,0.35)] overflow-hidden rounded-sm">
                                 <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/30 to-transparent animate-pulse" />
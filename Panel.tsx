@@ -4,33 +4,93 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useState } from 'react';
+import { LetteringLayer } from './components/LetteringLayer';
 import { useBook } from './context/BookContext';
 import { LoadingFX } from './LoadingFX';
-import { ComicFace, INITIAL_PAGES, GATE_PAGE } from './types';
+import { ComicFace, ExportFormat } from './types';
+import { getActiveEdition } from './utils/editions';
+import { getIssueLayout } from './utils/issueLayout';
+import { getReadingDirection } from './utils/readingDirection';
 
 interface PanelProps {
     face?: ComicFace;
     allFaces: ComicFace[];
     onOpenBook: () => void;
-    onDownload: () => void;
+    onDownload: (format: ExportFormat) => void;
 }
 
 export const Panel: React.FC<PanelProps> = React.memo(({ face, allFaces, onOpenBook, onDownload }) => {
-    const { actions } = useBook();
+    const { state, actions } = useBook();
+    const issueNumber = state.config.continuity?.issueNumber ?? 1;
+    const { gatePage } = getIssueLayout(state.config);
+    const [isLettering, setIsLettering] = useState(false);
+    // Translated editions share the original's art and story, so only their lettering can change
+    const activeEdition = getActiveEdition(state);
+    const isEdition = !!activeEdition;
+    const direction = getReadingDirection(state.config, activeEdition?.language);
 
     if (!face) return <div className="w-full h-full bg-gray-950" />;
-    if (face.isLoading && !face.imageUrl) return <LoadingFX />;
+    if (face.isLoading && !face.imageUrl) return <LoadingFX pageIndex={face.pageIndex} />;
     
     const isFullBleed = face.type === 'cover' || face.type === 'back_cover';
+    const takeCount = face.takes?.length ?? 0;
+    const activeTake = face.activeTake ?? takeCount - 1;
+    // A settled choice already shaped the following pages, so only the art may change
+    const canRewrite = face.type === 'story' && !face.resolvedChoice;
 
     return (
         <div className={`panel-container relative group ${isFullBleed ? '!p-0 !bg-[#0a0a0a]' : ''}`}>
             <div className="gloss"></div>
             {face.imageUrl && <img src={face.imageUrl} alt="Comic panel" className={`panel-image ${isFullBleed ? '!object-cover' : ''}`} />}
+            {face.imageUrl && face.lettering && face.lettering.length > 0 && (
+                <LetteringLayer
+                    elements={face.lettering}
+                    editable={isLettering && !face.isLoading}
+                    direction={direction}
+                    onChange={(lettering) => actions.updateLettering(face.pageIndex, lettering)}
+                />
+            )}
+
+            {/* Page Tools - Re-ink, rewrite and flip between takes */}
+            <div className={`absolute top-2 right-2 z-30 flex items-center gap-1 transition-opacity ${face.imageUrl && !face.isLoading ? 'sm:opacity-0 sm:group-hover:opacity-100' : ''}`}>
+                {face.isLoading ? (
+                    <span className="comic-btn bg-white text-xs px-2 py-1 animate-pulse">INKING...</span>
+                ) : (
+                    <>
+                        {takeCount > 1 && !isEdition && (
+                            <div className="comic-btn bg-white text-xs px-1 py-1 flex items-center gap-1">
+                                <button aria-label="Previous take" disabled={activeTake <= 0} className="px-1 disabled:opacity-30"
+                                  onClick={(e) => { e.stopPropagation(); actions.selectTake(face.pageIndex, activeTake - 1); }}>◀</button>
+                                <span className="font-bold">{activeTake + 1}/{takeCount}</span>
+                                <button aria-label="Next take" disabled={activeTake >= takeCount - 1} className="px-1 disabled:opacity-30"
+                                  onClick={(e) => { e.stopPropagation(); actions.selectTake(face.pageIndex, activeTake + 1); }}>▶</button>
+                            </div>
+                        )}
+                        {face.lettering && face.lettering.length > 0 && (
+                            <button title="Drag captions, balloons and balloon tails into place" aria-pressed={isLettering}
+                              className={`comic-btn text-xs px-2 py-1 touch-manipulation ${isLettering ? 'bg-green-500 text-white hover:bg-green-400' : 'bg-white hover:bg-gray-100'}`}
+                              onClick={(e) => { e.stopPropagation(); setIsLettering(editing => !editing); }}>{isLettering ? 'DONE' : 'LETTER'}</button>
+                        )}
+                        {!isEdition && (
+                            <button title="Draw this page again from the same script" className="comic-btn bg-yellow-400 hover:bg-yellow-300 text-xs px-2 py-1 touch-manipulation"
+                              onClick={(e) => { e.stopPropagation(); actions.reinkPage(face.pageIndex); }}>RE-INK</button>
+                        )}
+                        {canRewrite && !isEdition && (
+                            <button title="Write a new script for this page and ink it" className="comic-btn bg-blue-500 text-white hover:bg-blue-400 text-xs px-2 py-1 touch-manipulation"
+                              onClick={(e) => { e.stopPropagation(); actions.rewritePage(face.pageIndex); }}>REWRITE</button>
+                        )}
+                    </>
+                )}
+            </div>
             
             {/* Decision Buttons - Enhanced for mobile with better touch targets */}
-            {face.isDecisionPage && face.choices.length > 0 && (
+            {face.isDecisionPage && face.choices.length > 0 && isEdition && !face.resolvedChoice && (
+                <div className="absolute bottom-4 inset-x-4 z-20 flex justify-center">
+                    <span className="comic-btn bg-white text-xs sm:text-sm px-3 py-2 text-center">Switch to the original language to choose what happens next</span>
+                </div>
+            )}
+            {face.isDecisionPage && face.choices.length > 0 && !isEdition && (
                 <div className={`absolute bottom-0 inset-x-0 p-4 sm:p-6 pb-10 sm:pb-12 flex flex-col gap-3 sm:gap-4 items-center justify-end transition-opacity duration-500 ${face.resolvedChoice ? 'opacity-0 pointer-events-none' : 'opacity-100'} bg-gradient-to-t from-black/90 via-black/50 to-transparent z-20`}>
                     <p className="text-white font-comic text-lg sm:text-2xl uppercase tracking-widest animate-pulse text-center">What drives you?</p>
                     {face.choices.map((choice, i) => (
@@ -42,13 +102,27 @@ export const Panel: React.FC<PanelProps> = React.memo(({ face, allFaces, onOpenB
                 </div>
             )}
 
+            {/* Branching - Revisit a decided page and follow the road not taken */}
+            {face.isDecisionPage && face.resolvedChoice && face.choices.length > 1 && !face.isLoading && !isEdition && (
+                <div className="absolute bottom-2 inset-x-2 z-20 flex flex-wrap items-center justify-center gap-2 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                    <span className="comic-btn bg-white text-xs px-2 py-1">CHOSE: {face.resolvedChoice}</span>
+                    {face.choices.filter(choice => choice !== face.resolvedChoice).map(choice => (
+                        <button key={choice} title="Read or write the branch where this was chosen instead"
+                          onClick={(e) => { e.stopPropagation(); actions.exploreChoice(face.pageIndex, choice); }}
+                          className="comic-btn bg-purple-500 text-white hover:bg-purple-400 text-xs px-2 py-1 touch-manipulation">
+                            ⑂ {choice}
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {/* Cover Action - Enhanced for mobile */}
             {face.type === 'cover' && (
                  <div className="absolute bottom-16 sm:bottom-20 inset-x-0 flex justify-center z-20 px-4">
                      <button onClick={(e) => { e.stopPropagation(); onOpenBook(); }}
-                      disabled={!allFaces.find(f => f.pageIndex === GATE_PAGE)?.imageUrl}
+                      disabled={!allFaces.find(f => f.pageIndex === gatePage)?.imageUrl}
                       className="comic-btn bg-yellow-400 px-6 sm:px-10 py-5 text-2xl sm:text-3xl font-bold hover:scale-105 animate-bounce disabled:animate-none disabled:bg-gray-400 disabled:cursor-wait touch-manipulation min-h-[64px] active:scale-95 transition-transform w-full sm:w-auto max-w-sm">
-                         {(!allFaces.find(f => f.pageIndex === GATE_PAGE)?.imageUrl) ? `PRINTING... ${allFaces.filter(f => f.type==='story' && f.imageUrl && (f.pageIndex||0) <= GATE_PAGE).length}/${INITIAL_PAGES}` : 'READ ISSUE #1'}
+                         {(!allFaces.find(f => f.pageIndex === gatePage)?.imageUrl) ? `PRINTING... ${allFaces.filter(f => f.type==='story' && f.imageUrl && (f.pageIndex||0) <= gatePage).length}/${gatePage}` : `READ ISSUE #${issueNumber}`}
                      </button>
                  </div>
             )}
@@ -56,7 +130,13 @@ export const Panel: React.FC<PanelProps> = React.memo(({ face, allFaces, onOpenB
             {/* Back Cover Actions - Enhanced for mobile */}
             {face.type === 'back_cover' && (
                 <div className="absolute bottom-20 sm:bottom-24 inset-x-0 flex flex-col items-center gap-4 sm:gap-5 z-20 px-4">
-                    <button onClick={(e) => { e.stopPropagation(); onDownload(); }} className="comic-btn bg-blue-500 text-white px-6 sm:px-8 py-4 text-lg sm:text-xl font-bold hover:scale-105 active:scale-95 transition-transform touch-manipulation min-h-[56px] w-full sm:w-auto max-w-sm">DOWNLOAD ISSUE</button>
+                    <button onClick={(e) => { e.stopPropagation(); onDownload('pdf'); }} className="comic-btn bg-blue-500 text-white px-6 sm:px-8 py-4 text-lg sm:text-xl font-bold hover:scale-105 active:scale-95 transition-transform touch-manipulation min-h-[56px] w-full sm:w-auto max-w-sm">DOWNLOAD ISSUE</button>
+                    <div className="flex gap-2 w-full sm:w-auto max-w-sm">
+                        <button onClick={(e) => { e.stopPropagation(); onDownload('cbz'); }} title="Comic archive with ComicInfo.xml, for any comic reader app" className="flex-1 comic-btn bg-white text-black px-4 py-2 text-sm sm:text-base font-bold hover:scale-105 active:scale-95 transition-transform touch-manipulation">CBZ</button>
+                        <button onClick={(e) => { e.stopPropagation(); onDownload('epub'); }} title="Fixed-layout EPUB with the captions and dialogue as text, for e-readers and screen readers" className="flex-1 comic-btn bg-white text-black px-4 py-2 text-sm sm:text-base font-bold hover:scale-105 active:scale-95 transition-transform touch-manipulation">EPUB</button>
+                        <button onClick={(e) => { e.stopPropagation(); onDownload('strip'); }} title="Story pages stitched into one vertical long strip, for phones and webtoon apps" className="flex-1 comic-btn bg-white text-black px-4 py-2 text-sm sm:text-base font-bold hover:scale-105 active:scale-95 transition-transform touch-manipulation">STRIP</button>
+                    </div>
+                    <button onClick={(e) => { e.stopPropagation(); void actions.startNextIssue(); }} className="comic-btn bg-yellow-400 px-6 sm:px-8 py-5 text-xl sm:text-2xl font-bold hover:scale-105 active:scale-95 transition-transform touch-manipulation min-h-[64px] w-full sm:w-auto max-w-sm">START ISSUE #{issueNumber + 1}</button>
                     <button onClick={(e) => { e.stopPropagation(); actions.reset(); }} className="comic-btn bg-green-500 text-white px-6 sm:px-8 py-5 text-xl sm:text-2xl font-bold hover:scale-105 active:scale-95 transition-transform touch-manipulation min-h-[64px] w-full sm:w-auto max-w-sm">CREATE NEW ISSUE</button>
                 </div>
             )}
@@ -10,8 +10,11 @@ import { WorldBuilder } from './components/WorldBuilder';
 import { useBook } from './context/BookContext';
 import { useModelPresets } from './context/ModelPresetContext';
 import { usePWA } from './hooks/usePWA';
+import { getImageProvider, getTextProvider } from './services/providers/registry';
 import { StorageService } from './services/storage';
-import { GENRES, LANGUAGES, Persona, StoryConfig, World } from './types';
+import { GENRES, ISSUE_FORMATS, LANGUAGES, MAX_STORY_PAGES, MIN_STORY_PAGES, PAGE_LAYOUTS, PageLayoutId, Persona, ReadingDirection, StoryConfig, World } from './types';
+import { getIssueLayout, parseDecisionPages } from './utils/issueLayout';
+import { getReadingDirection } from './utils/readingDirection';
 
 interface SetupProps {
     show: boolean;
@@ -122,6 +125,8 @@ export const Setup: React.FC<SetupProps> = (props) => {
     const [showCharacterBuilder, setShowCharacterBuilder] = useState(false);
     const [editingCharacter, setEditingCharacter] = useState<(Persona & {id:string}) | null>(null);
     const [isOnline, setIsOnline] = useState(navigator.onLine);
+    // Offline-capable providers (e.g. the mock backend) can still launch without a connection
+    const canGenerate = isOnline || (!!getTextProvider(props.config).worksOffline && !!getImageProvider(props.config).worksOffline);
     const { presets, getPresetById } = useModelPresets();
     const [libraryRestored, setLibraryRestored] = useState(false);
     const [hadLibraryAccess, setHadLibraryAccess] = useState(false);
@@ -254,6 +259,23 @@ export const Setup: React.FC<SetupProps> = (props) => {
         return getPresetById(props.config.modelPresetId) || presets[0];
     }, [getPresetById, presets, props.config.modelPresetId]);
 
+    const issueLayout = getIssueLayout(props.config);
+    const matchedFormat = ISSUE_FORMATS.find(format =>
+        format.storyPages === issueLayout.storyPages &&
+        format.decisionPages.join(',') === issueLayout.decisionPages.join(',')
+    );
+    const [isCustomLength, setIsCustomLength] = useState(!matchedFormat);
+    const [decisionPagesText, setDecisionPagesText] = useState(issueLayout.decisionPages.join(', '));
+
+    const handleFormatSelect = (id: string) => {
+        const format = ISSUE_FORMATS.find(f => f.id === id);
+        setIsCustomLength(!format);
+        if (format) {
+            props.onConfigChange({ storyPages: format.storyPages, decisionPages: format.decisionPages });
+            setDecisionPagesText(format.decisionPages.join(', '));
+        }
+    };
+
     const handlePresetSelect = (id: string) => {
         const preset = getPresetById(id) || presets.find(p => p.id === id);
         if (preset) {
@@ -450,6 +472,38 @@ export const Setup: React.FC<SetupProps> = (props) => {
 
                 <p className="text-xs sm:text-sm text-gray-700 mb-3 sm:mb-4 font-sans px-2">Focus on the essentials first. You can collapse sections you are done with to keep the workspace clear.</p>
 
+                {props.config.continuity && (
+                    <div className="bg-yellow-100 border-4 border-black p-3 mb-3 sm:mb-4 text-left shadow-[4px_4px_0px_rgba(0,0,0,0.3)] flex flex-col gap-2">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <p className="font-comic text-lg sm:text-xl text-black">
+                                CONTINUING THE SERIES · ISSUE #{props.config.continuity.issueNumber}
+                            </p>
+                            <button
+                                type="button"
+                                onClick={() => props.onConfigChange({ continuity: undefined })}
+                                className="comic-btn bg-gray-200 hover:bg-gray-100 text-xs px-3 py-2 touch-manipulation"
+                            >
+                                Make it a standalone issue
+                            </button>
+                        </div>
+                        <label className="flex flex-col gap-1">
+                            <span className="font-comic text-sm font-bold text-gray-800">SERIES TITLE</span>
+                            <input
+                                type="text"
+                                value={props.config.continuity.seriesTitle}
+                                onChange={(e) => props.config.continuity && props.onConfigChange({ continuity: { ...props.config.continuity, seriesTitle: e.target.value } })}
+                                className="w-full p-2 border-2 border-black font-comic text-base bg-white rounded"
+                            />
+                        </label>
+                        {props.config.continuity.previousRecap && (
+                            <details className="text-xs text-gray-700">
+                                <summary className="cursor-pointer font-bold">Previously in Issue #{props.config.continuity.issueNumber - 1}</summary>
+                                <p className="whitespace-pre-line mt-1">{props.config.continuity.previousRecap}</p>
+                            </details>
+                        )}
+                    </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4 mb-3 sm:mb-4 text-left">
 
                     <SectionCard
@@ -657,6 +711,62 @@ export const Setup: React.FC<SetupProps> = (props) => {
                                     </select>
                                 </div>
 
+                                <div className="mb-1">
+                                    <p className="font-comic text-sm sm:text-base mb-1 font-bold text-gray-800">READING DIRECTION</p>
+                                    <select value={props.config.readingDirection || 'auto'} onChange={(e) => props.onConfigChange({ readingDirection: e.target.value === 'auto' ? undefined : e.target.value as ReadingDirection })} className="w-full font-comic text-base sm:text-lg p-2.5 sm:p-2 border-2 border-black uppercase bg-white text-black cursor-pointer shadow-[3px_3px_0px_rgba(0,0,0,0.2)] rounded touch-manipulation min-h-[44px] sm:min-h-0">
+                                        <option value="auto" className="text-black">Auto ({getReadingDirection({ language: props.config.language }) === 'rtl' ? 'Right to left' : 'Left to right'})</option>
+                                        <option value="ltr" className="text-black">Left to right</option>
+                                        <option value="rtl" className="text-black">Right to left (manga)</option>
+                                    </select>
+                                </div>
+
+                                <div className="mb-1">
+                                    <p className="font-comic text-sm sm:text-base mb-1 font-bold text-gray-800">ISSUE LENGTH</p>
+                                    <select value={isCustomLength || !matchedFormat ? 'custom' : matchedFormat.id} onChange={(e) => handleFormatSelect(e.target.value)} className="w-full font-comic text-base sm:text-lg p-2.5 sm:p-2 border-2 border-black uppercase bg-white text-black cursor-pointer shadow-[3px_3px_0px_rgba(0,0,0,0.2)] rounded touch-manipulation min-h-[44px] sm:min-h-0">
+                                        {ISSUE_FORMATS.map(f => <option key={f.id} value={f.id} className="text-black">{f.name}</option>)}
+                                        <option value="custom" className="text-black">Custom</option>
+                                    </select>
+                                    {(isCustomLength || !matchedFormat) && (
+                                        <div className="grid grid-cols-2 gap-2 mt-2">
+                                            <label className="flex flex-col gap-1">
+                                                <span className="text-[10px] sm:text-[11px] font-bold text-gray-600">STORY PAGES ({MIN_STORY_PAGES}-{MAX_STORY_PAGES})</span>
+                                                <input
+                                                    type="number"
+                                                    min={MIN_STORY_PAGES}
+                                                    max={MAX_STORY_PAGES}
+                                                    value={issueLayout.storyPages}
+                                                    onChange={(e) => props.onConfigChange({ storyPages: parseInt(e.target.value, 10) || MIN_STORY_PAGES })}
+                                                    className="w-full p-2 border-2 border-black font-comic text-base bg-white rounded touch-manipulation"
+                                                />
+                                            </label>
+                                            <label className="flex flex-col gap-1">
+                                                <span className="text-[10px] sm:text-[11px] font-bold text-gray-600">DECISION PAGES</span>
+                                                <input
+                                                    type="text"
+                                                    value={decisionPagesText}
+                                                    onChange={(e) => {
+                                                        setDecisionPagesText(e.target.value);
+                                                        props.onConfigChange({ decisionPages: parseDecisionPages(e.target.value) });
+                                                    }}
+                                                    placeholder="E.g., 5, 12"
+                                                    className="w-full p-2 border-2 border-black font-comic text-base bg-white rounded touch-manipulation"
+                                                />
+                                            </label>
+                                        </div>
+                                    )}
+                                    <p className="text-[10px] text-gray-500 mt-1">
+                                        {issueLayout.storyPages} pages · {issueLayout.decisionPages.length ? `choices on page ${issueLayout.decisionPages.join(', ')}` : 'no choices'}
+                                    </p>
+                                </div>
+
+                                <div className="mb-1">
+                                    <p className="font-comic text-sm sm:text-base mb-1 font-bold text-gray-800">PAGE LAYOUT</p>
+                                    <select value={props.config.pageLayout || 'splash'} onChange={(e) => props.onConfigChange({ pageLayout: e.target.value as PageLayoutId })} className="w-full font-comic text-base sm:text-lg p-2.5 sm:p-2 border-2 border-black uppercase bg-white text-black cursor-pointer shadow-[3px_3px_0px_rgba(0,0,0,0.2)] rounded touch-manipulation min-h-[44px] sm:min-h-0">
+                                        {PAGE_LAYOUTS.map(l => <option key={l.id} value={l.id} className="text-black">{l.name}</option>)}
+                                    </select>
+                                    <p className="text-[10px] text-gray-500 mt-1">Each panel is drawn separately, so more panels take longer to ink.</p>
+                                </div>
+
                                 <div className="mb-1">
                                     <p className="font-comic text-sm sm:text-base mb-1 font-bold text-gray-800">MODEL PRESET</p>
                                     <select
@@ -692,13 +802,23 @@ export const Setup: React.FC<SetupProps> = (props) => {
                                     <input type="checkbox" checked={props.config.richMode} onChange={(e) => props.onConfigChange({ richMode: e.target.checked })} className="w-5 h-5 sm:w-4 sm:h-4 accent-black flex-shrink-0" />
                                     <span className="text-black">NOVEL MODE (Rich Dialogue)</span>
                                 </label>
+
+                                <label className="flex items-center gap-2 sm:gap-2 font-comic text-sm sm:text-base cursor-pointer text-black p-3 sm:p-2 hover:bg-yellow-100 rounded border-2 border-transparent hover:border-yellow-300 transition-colors touch-manipulation min-h-[52px] sm:min-h-0">
+                                    <input type="checkbox" checked={!!props.config.reviewScript} onChange={(e) => props.onConfigChange({ reviewScript: e.target.checked })} className="w-5 h-5 sm:w-4 sm:h-4 accent-black flex-shrink-0" />
+                                    <span className="text-black">SCRIPT REVIEW (Edit each page before inking)</span>
+                                </label>
+
+                                <label className="flex items-center gap-2 sm:gap-2 font-comic text-sm sm:text-base cursor-pointer text-black p-3 sm:p-2 hover:bg-yellow-100 rounded border-2 border-transparent hover:border-yellow-300 transition-colors touch-manipulation min-h-[52px] sm:min-h-0">
+                                    <input type="checkbox" checked={props.config.letteringMode !== 'in-art'} onChange={(e) => props.onConfigChange({ letteringMode: e.target.checked ? 'overlay' : 'in-art' })} className="w-5 h-5 sm:w-4 sm:h-4 accent-black flex-shrink-0" />
+                                    <span className="text-black">CRISP LETTERING (Text added over textless art)</span>
+                                </label>
                             </div>
                         </SectionCard>
                     </div>
                 </div>
 
-                <button onClick={props.onLaunch} disabled={!props.hero || props.isTransitioning || !isOnline} className="comic-btn bg-red-600 text-white text-xl sm:text-2xl md:text-3xl px-4 py-4 sm:px-6 sm:py-3 w-full hover:bg-red-500 disabled:bg-gray-400 disabled:cursor-not-allowed uppercase tracking-wider touch-manipulation min-h-[60px]">
-                    {props.isTransitioning ? 'LAUNCHING...' : isOnline ? 'START ADVENTURE!' : 'OFFLINE - CANNOT LAUNCH'}
+                <button onClick={props.onLaunch} disabled={!props.hero || props.isTransitioning || !canGenerate} className="comic-btn bg-red-600 text-white text-xl sm:text-2xl md:text-3xl px-4 py-4 sm:px-6 sm:py-3 w-full hover:bg-red-500 disabled:bg-gray-400 disabled:cursor-not-allowed uppercase tracking-wider touch-manipulation min-h-[60px]">
+                    {props.isTransitioning ? 'LAUNCHING...' : canGenerate ? (props.config.continuity ? `START ISSUE #${props.config.continuity.issueNumber}!` : 'START ADVENTURE!') : 'OFFLINE - CANNOT LAUNCH'}
                 </button>
             </div>
           </div>
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo, useState } from 'react';
+import { StoryBranch } from '../types';
+import { getBranchLabel } from '../utils/branches';
+
+interface BranchNavigatorProps {
+    branches: StoryBranch[];
+    activeBranchId: string;
+    isGenerating: boolean;
+    onSwitch: (branchId: string) => void;
+    onDownload: (branchId: string) => void;
+}
+
+/**
+ * Floating list of every branch of the story, nested under the branch it
+ * forked from. Hidden until the reader explores a second choice.
+ */
+export const BranchNavigator: React.FC<BranchNavigatorProps> = ({ branches, activeBranchId, isGenerating, onSwitch, onDownload }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    // Depth-first so each branch sits right under its parent
+    const rows = useMemo(() => {
+        const ordered: Array<{ branch: StoryBranch; depth: number }> = [];
+        const visit = (parentId: string | null, depth: number) => {
+            branches
+                .filter(branch => branch.parentId === parentId)
+                .sort((a, b) => a.forkPage - b.forkPage || a.createdAt - b.createdAt)
+                .forEach(branch => {
+                    ordered.push({ branch, depth });
+                    visit(branch.id, depth + 1);
+                });
+        };
+        visit(null, 0);
+        return ordered;
+    }, [branches]);
+
+    if (branches.length < 2) return null;
+
+    return (
+        <div className="fixed bottom-4 left-4 z-[120] max-w-[calc(100vw-2rem)] sm:max-w-sm">
+            {isOpen && (
+                <div className="mb-2 bg-white border-4 border-black shadow-[6px_6px_0px_rgba(0,0,0,0.6)] p-2 max-h-[50vh] overflow-y-auto">
+                    {rows.map(({ branch, depth }) => {
+                        const isActive = branch.id === activeBranchId;
+                        return (
+                            <div key={branch.id} className={`flex items-center gap-2 py-1 ${isActive ? 'bg-yellow-100' : ''}`} style={{ paddingLeft: depth * 14 }}>
+                                <button
+                                    onClick={() => onSwitch(branch.id)}
+                                    disabled={isActive || isGenerating}
+                                    className="flex-1 min-w-0 text-left font-comic text-sm truncate disabled:cursor-default hover:underline disabled:no-underline"
+                                    title={getBranchLabel(branch)}
+                                >
+                                    {depth > 0 ? '⑂ ' : ''}{getBranchLabel(branch)}{isActive ? ' ★' : ''}
+                                </button>
+                                <button
+                                    onClick={() => onDownload(branch.id)}
+                                    className="comic-btn bg-blue-500 text-white hover:bg-blue-400 text-[10px] px-2 py-0.5 flex-shrink-0"
+                                    aria-label={`Download ${getBranchLabel(branch)} as PDF`}
+                                >
+                                    PDF
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="comic-btn bg-purple-500 text-white hover:bg-purple-400 px-3 py-2 text-sm touch-manipulation"
+                aria-expanded={isOpen}
+            >
+                ⑂ BRANCHES ({branches.length})
+            </button>
+        </div>
+    );
+};
@@ -29,6 +29,10 @@ export const DirectorInput: React.FC<DirectorInputProps> = React.memo(({ onConti
         return storyFaces[storyFaces.length - 1];
     }, [state.comicFaces]);
 
+    // Pages prefetched on the assumption the director lets the story run on
+    const prefetched = state.prefetchedFaces.length;
+    const prefetchedReady = state.prefetchedFaces.filter(face => !face.isLoading).length;
+
     const lastScene = lastStoryFace?.narrative?.scene?.trim();
     const lastCaption = lastStoryFace?.narrative?.caption?.trim();
     const lastChoice = lastStoryFace?.resolvedChoice;
@@ -63,6 +67,22 @@ export const DirectorInput: React.FC<DirectorInputProps> = React.memo(({ onConti
                      You are the director. Guide the AI for the next few pages. Be specific about plot twists, character actions, or sudden events.
                  </p>
 
+                 {prefetched > 0 && (
+                     <button
+                        type="button"
+                        onClick={() => onContinue('')}
+                        disabled={isGenerating}
+                        className="comic-btn w-full text-left text-sm sm:text-lg py-3 px-3 sm:px-4 mb-3 sm:mb-4 touch-manipulation min-h-[60px] sm:min-h-0 bg-emerald-300 hover:bg-emerald-200"
+                     >
+                         KEEP READING →
+                         <span className="block font-sans text-xs text-gray-700">
+                             {prefetchedReady === prefetched
+                                 ? `${prefetched} page${prefetched > 1 ? 's' : ''} ready, no new direction`
+                                 : `${prefetchedReady} of ${prefetched} pages ready, no new direction`}
+                         </span>
+                     </button>
+                 )}
+
                  <div className="grid grid-cols-1 gap-2 sm:gap-3 mb-3 sm:mb-4">
                      {branchOptions.map((option, index) => (
                          <button
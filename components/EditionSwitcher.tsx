@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { IssueEdition, LANGUAGES } from '../types';
+
+interface EditionSwitcherProps {
+    originalLanguage: string;
+    editions: IssueEdition[]; // Editions of the branch on screen
+    activeEdition: string | null;
+    isGenerating: boolean;
+    onSwitch: (language: string | null) => void;
+    onTranslate: (language: string) => void;
+}
+
+const getLanguageName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+
+/**
+ * Floating picker for the language the issue is read in. Lists the original
+ * and every translated edition, and translates into a new language.
+ */
+export const EditionSwitcher: React.FC<EditionSwitcherProps> = ({ originalLanguage, editions, activeEdition, isGenerating, onSwitch, onTranslate }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [target, setTarget] = useState(() => LANGUAGES.find(l => l.code !== originalLanguage)?.code ?? originalLanguage);
+
+    const current = activeEdition ?? originalLanguage;
+    const rows: Array<{ language: string; label: string; value: string | null }> = [
+        { language: originalLanguage, label: `${getLanguageName(originalLanguage)} (original)`, value: null },
+        ...editions.map(edition => ({ language: edition.language, label: getLanguageName(edition.language), value: edition.language })),
+    ];
+    const hasTarget = editions.some(edition => edition.language === target);
+
+    return (
+        <div className="fixed bottom-4 right-4 z-[120] max-w-[calc(100vw-2rem)] sm:max-w-xs flex flex-col items-end">
+            {isOpen && (
+                <div className="mb-2 w-full bg-white border-4 border-black shadow-[6px_6px_0px_rgba(0,0,0,0.6)] p-2 flex flex-col gap-1">
+                    {rows.map(row => (
+                        <button
+                            key={row.language}
+                            onClick={() => onSwitch(row.value)}
+                            disabled={row.language === current}
+                            className={`text-left font-comic text-sm px-1 py-0.5 truncate hover:underline disabled:no-underline disabled:cursor-default ${row.language === current ? 'bg-yellow-100' : ''}`}
+                        >
+                            {row.label}{row.language === current ? ' ★' : ''}
+                        </button>
+                    ))}
+                    <div className="flex gap-1 border-t-2 border-black pt-2 mt-1">
+                        <select
+                            value={target}
+                            onChange={e => setTarget(e.target.value)}
+                            className="flex-1 min-w-0 border-2 border-black font-comic text-sm p-1 bg-white"
+                            aria-label="Translate into"
+                        >
+                            {LANGUAGES.filter(l => l.code !== originalLanguage).map(l => (
+                                <option key={l.code} value={l.code}>{l.name}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => onTranslate(target)}
+                            disabled={isGenerating}
+                            className="comic-btn bg-blue-500 text-white hover:bg-blue-400 text-xs px-2 py-1 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            title={hasTarget ? 'Translate again, replacing this edition' : 'Re-letter this issue in another language'}
+                        >
+                            {hasTarget ? 'REDO' : 'TRANSLATE'}
+                        </button>
+                    </div>
+                </div>
+            )}
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="comic-btn bg-white hover:bg-gray-100 px-3 py-2 text-sm touch-manipulation"
+                aria-expanded={isOpen}
+            >
+                🌐 {current.split('-')[0]?.toUpperCase()}
+            </button>
+        </div>
+    );
+};
@@ -5,16 +5,56 @@
 
 import React, { useEffect, useMemo, useState } from 'react';
 import { useBook } from '../context/BookContext';
+import { GenerationJob, GenerationJobKind, PageGenerationState } from '../types';
+
+const PAGE_STATE_LABELS: Record<PageGenerationState, string> = {
+  queued: 'queued',
+  writing: 'writing',
+  reviewing: 'in review',
+  casting: 'casting',
+  'waiting-ink': 'waiting',
+  inking: 'inking',
+  done: 'done',
+  failed: 'failed',
+};
+
+const PAGE_STATE_STYLES: Record<PageGenerationState, string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  writing: 'bg-blue-100 text-blue-800',
+  reviewing: 'bg-blue-100 text-blue-800',
+  casting: 'bg-purple-100 text-purple-800',
+  'waiting-ink': 'bg-gray-100 text-gray-700',
+  inking: 'bg-yellow-100 text-yellow-800 font-semibold',
+  done: 'bg-emerald-100 text-emerald-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const JOB_KIND_LABELS: Record<GenerationJobKind, string> = {
+  persona: 'Cast sidekick',
+  beat: 'Write',
+  image: 'Ink',
+  cover: 'Paint cover',
+  back_cover: 'Ink back cover',
+};
+
+const describeJob = (job: GenerationJob) => {
+  const take = job.take === 'reink' ? 'Re-ink' : job.take === 'rewrite' && job.kind === 'beat' ? 'Rewrite' : undefined;
+  const action = take ?? JOB_KIND_LABELS[job.kind];
+  return job.kind === 'cover' || job.kind === 'back_cover' ? action : `${action} P${job.pageIndex}`;
+};
 
 export const GlobalLoadingIndicator: React.FC = () => {
-  const { state } = useBook();
+  const { state, actions } = useBook();
 
   // Initialize with function to avoid calling Date.now() during render
   const [now, setNow] = useState(() => Date.now());
 
   const progress = state.loadingProgress;
   const loadingFaces = useMemo(() => state.comicFaces.filter(face => face.isLoading), [state.comicFaces]);
-  const showIndicator = progress || loadingFaces.length > 0;
+  // Finished jobs drop off; failed ones stay until retried or dismissed. Prefetching stays out of sight
+  const openJobs = useMemo(() => state.jobs.filter(job => job.status !== 'done' && job.status !== 'cancelled' && !job.speculative), [state.jobs]);
+  const hasFailedJobs = openJobs.some(job => job.status === 'failed');
+  const showIndicator = progress || loadingFaces.length > 0 || hasFailedJobs;
 
   useEffect(() => {
     if (!showIndicator) return;
@@ -93,12 +133,45 @@ export const GlobalLoadingIndicator: React.FC = () => {
           )}
         </div>
 
-        {loadingFaces.length > 0 && (
+        {progress?.pages ? (
+          <div className="flex flex-wrap gap-1 text-[10px] font-mono">
+            {progress.pages.map(page => (
+              <span
+                key={page.pageIndex}
+                title={PAGE_STATE_LABELS[page.state]}
+                className={`px-1.5 py-0.5 rounded border border-black/20 ${PAGE_STATE_STYLES[page.state]}`}
+              >
+                P{page.pageIndex} {PAGE_STATE_LABELS[page.state]}{page.state === 'inking' && page.panelCount && page.panelCount > 1 ? ` ${page.panel}/${page.panelCount}` : ''}
+              </span>
+            ))}
+          </div>
+        ) : loadingFaces.length > 0 && (
           <p className="text-xs text-gray-600 font-mono">
             Active pages: {loadingFaces.map(face => face.pageIndex ?? '?').join(', ')}
           </p>
         )}
 
+        {openJobs.length > 0 && (
+          <ul className="max-h-32 overflow-y-auto border border-black/20 rounded divide-y divide-black/10 text-[11px] font-mono">
+            {openJobs.map(job => (
+              <li key={job.id} className="flex items-center gap-2 px-2 py-1">
+                <span className={`w-2 h-2 rounded-full flex-shrink-0 ${job.status === 'failed' ? 'bg-red-500' : job.status === 'running' ? 'bg-yellow-400 animate-pulse' : 'bg-gray-300'}`} />
+                <span className="flex-1 min-w-0 truncate" title={job.error}>
+                  {describeJob(job)}{job.status === 'failed' ? ' — failed' : job.status === 'queued' ? ' — queued' : ''}
+                </span>
+                {job.status === 'failed' ? (
+                  <>
+                    <button onClick={() => actions.retryJob(job.id)} className="px-1.5 border border-black/40 rounded hover:bg-yellow-100">Retry</button>
+                    <button onClick={() => actions.dismissJob(job.id)} className="px-1.5 border border-black/40 rounded hover:bg-gray-100" aria-label={`Dismiss ${describeJob(job)}`}>✕</button>
+                  </>
+                ) : (
+                  <button onClick={() => actions.cancelJob(job.id)} className="px-1.5 border border-black/40 rounded hover:bg-red-100" aria-label={`Cancel ${describeJob(job)}`}>Cancel</button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
         {(elapsedSeconds !== undefined || estimatedSeconds !== undefined) && (
           <div className="flex items-center justify-between text-xs text-gray-700 font-mono">
             <span>Elapsed: {elapsedSeconds !== undefined ? `${elapsedSeconds}s` : '—'}</span>
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { StorageService } from '../services/storage';
+import { ComicIssue, NotificationType } from '../types';
+import { PROJECT_EXTENSION } from '../utils/projectFile';
+
+interface IssueLibraryProps {
+    onOpen: (issue: ComicIssue) => void;
+    onDelete: (id: string) => Promise<void>;
+    onImport: (file: File) => Promise<void>;
+    onClose: () => void;
+    addNotification: (type: NotificationType, message: string, duration?: number) => void;
+}
+
+export const IssueLibrary: React.FC<IssueLibraryProps> = ({ onOpen, onDelete, onImport, onClose, addNotification }) => {
+    const [issues, setIssues] = useState<ComicIssue[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isImporting, setIsImporting] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refreshIssues = useCallback(() => {
+        setIsLoading(true);
+        StorageService.getIssues()
+            .then(setIssues)
+            .catch(error => {
+                console.error('Failed to load issue library:', error);
+                const errorMsg = error instanceof Error && error.message
+                    ? error.message
+                    : 'Failed to load saved issues. Please try reconnecting your library.';
+                addNotification('error', errorMsg);
+            })
+            .finally(() => setIsLoading(false));
+    }, [addNotification]);
+
+    useEffect(() => {
+        refreshIssues();
+    }, [refreshIssues]);
+
+    const handleDelete = async (issue: ComicIssue) => {
+        if (!window.confirm(`Delete "${issue.title}"? This action cannot be undone.`)) return;
+        try {
+            await onDelete(issue.id);
+            addNotification('success', 'Issue deleted', 3000);
+            refreshIssues();
+        } catch (error) {
+            console.error('Failed to delete issue:', error);
+            addNotification('error', 'Failed to delete issue. Please try again.');
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsImporting(true);
+        try {
+            await onImport(file);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[300] bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+            <div className="w-full max-w-3xl max-h-[90vh] bg-white border-[6px] border-black p-4 sm:p-6 shadow-[16px_16px_0px_rgba(0,0,0,1)] relative flex flex-col gap-4 animate-in fade-in zoom-in duration-300">
+                <h2 className="font-comic text-3xl sm:text-4xl text-blue-600 uppercase tracking-wide border-b-4 border-black pb-2">
+                    My Issues
+                </h2>
+
+                <div className="flex-1 overflow-y-auto">
+                    {isLoading && <p className="font-comic text-xl text-gray-500 text-center py-8">Pulling issues from the shelf...</p>}
+
+                    {!isLoading && issues.length === 0 && (
+                        <p className="text-gray-500 italic text-center py-8">
+                            No saved issues yet. Every comic you create is saved here automatically.
+                        </p>
+                    )}
+
+                    {!isLoading && issues.length > 0 && (
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                            {issues.map(issue => {
+                                const cover = issue.comicFaces.find(face => face.type === 'cover');
+                                const storyPages = issue.comicFaces.filter(face => face.type === 'story').length;
+                                const isFinished = issue.comicFaces.some(face => face.type === 'back_cover');
+
+                                return (
+                                    <div key={issue.id} className="border-4 border-black bg-gray-50 flex flex-col shadow-[4px_4px_0px_rgba(0,0,0,0.3)]">
+                                        <div className="aspect-[2/3] bg-gray-900 overflow-hidden">
+                                            {cover?.imageUrl
+                                                ? <img src={cover.imageUrl} alt={`Cover of ${issue.title}`} className="w-full h-full object-cover" />
+                                                : <div className="w-full h-full flex items-center justify-center font-comic text-gray-500">NO COVER</div>}
+                                        </div>
+                                        <div className="p-2 flex flex-col gap-1">
+                                            <p className="font-comic text-base leading-tight truncate" title={issue.title}>{issue.title}</p>
+                                            {issue.config.continuity && (
+                                                <p className="text-[10px] font-bold uppercase text-blue-600 truncate">
+                                                    Series · Issue #{issue.config.continuity.issueNumber}
+                                                </p>
+                                            )}
+                                            <p className="text-[11px] text-gray-600">
+                                                {storyPages} page{storyPages === 1 ? '' : 's'} · {isFinished ? 'Complete' : 'In progress'}
+                                            </p>
+                                            <p className="text-[10px] text-gray-500">{new Date(issue.updatedAt).toLocaleString()}</p>
+                                            <div className="flex gap-2 mt-1">
+                                                <button
+                                                    onClick={() => onOpen(issue)}
+                                                    className="flex-1 comic-btn bg-yellow-400 hover:bg-yellow-300 text-sm py-2 touch-manipulation"
+                                                >
+                                                    {isFinished ? 'READ' : 'CONTINUE'}
+                                                </button>
+                                                <button
+                                                    onClick={() => { void handleDelete(issue); }}
+                                                    className="comic-btn bg-red-500 text-white hover:bg-red-400 text-sm px-3 py-2 touch-manipulation"
+                                                    aria-label={`Delete ${issue.title}`}
+                                                >
+                                                    🗑️
+                                                </button>
+                                            </div>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex gap-2">
+                    <input ref={fileInputRef} type="file" accept={`.${PROJECT_EXTENSION},.cbz,application/vnd.comicbook+zip,application/zip`} className="hidden" onChange={(e) => { void handleImport(e); }} />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isImporting}
+                        title={`Open a .${PROJECT_EXTENSION} project or a CBZ comic archive`}
+                        className="comic-btn bg-blue-500 text-white hover:bg-blue-400 py-3 px-4 text-xl disabled:bg-gray-400"
+                    >
+                        {isImporting ? 'IMPORTING...' : 'IMPORT'}
+                    </button>
+                    <button onClick={onClose} className="flex-1 comic-btn bg-gray-300 hover:bg-gray-200 py-3 text-xl">CLOSE</button>
+                </div>
+            </div>
+        </div>
+    );
+};
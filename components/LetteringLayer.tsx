@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { LetteringElement, ReadingDirection } from '../types';
+import {
+    LETTERING_PAGE_HEIGHT,
+    LETTERING_PAGE_WIDTH,
+    LETTERING_STROKE,
+    getLetteringFill,
+    getLinePosition,
+    getTailPoints,
+    measureLettering
+} from '../utils/lettering';
+
+interface LetteringLayerProps {
+    elements: LetteringElement[];
+    editable: boolean;
+    direction: ReadingDirection;
+    onChange: (elements: LetteringElement[]) => void;
+}
+
+interface DragState {
+    id: string;
+    target: 'box' | 'tail';
+    startX: number;
+    startY: number;
+    origin: { x: number; y: number };
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Captions and balloons drawn over textless art. Scales with the page like
+ * the image underneath (same 2:3 box, centred). In edit mode boxes and tail
+ * tips can be dragged; the result is saved when the drag ends.
+ */
+export const LetteringLayer: React.FC<LetteringLayerProps> = ({ elements, editable, direction, onChange }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragRef = useRef<DragState | null>(null);
+    // Positions while a drag is in progress; committed on release
+    const [draft, setDraft] = useState<LetteringElement[] | null>(null);
+    const shown = draft ?? elements;
+
+    // Pointer position as a fraction of the page
+    const toPage = (e: React.PointerEvent): { x: number; y: number } | null => {
+        const matrix = svgRef.current?.getScreenCTM();
+        if (!matrix) return null;
+        const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+        return { x: point.x / LETTERING_PAGE_WIDTH, y: point.y / LETTERING_PAGE_HEIGHT };
+    };
+
+    const startDrag = (e: React.PointerEvent, element: LetteringElement, target: DragState['target']) => {
+        if (!editable) return;
+        const point = toPage(e);
+        const origin = target === 'tail' ? element.tail : { x: element.x, y: element.y };
+        if (!point || !origin) return;
+
+        e.stopPropagation();
+        svgRef.current?.setPointerCapture(e.pointerId);
+        dragRef.current = { id: element.id, target, startX: point.x, startY: point.y, origin };
+        setDraft(elements);
+    };
+
+    const handleMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const point = drag && toPage(e);
+        if (!drag || !point) return;
+
+        const x = drag.origin.x + point.x - drag.startX;
+        const y = drag.origin.y + point.y - drag.startY;
+        setDraft(prev => (prev ?? elements).map(element => {
+            if (element.id !== drag.id) return element;
+            return drag.target === 'tail'
+                ? { ...element, tail: { x: clamp(x, 0, 1), y: clamp(y, 0, 1) } }
+                : { ...element, x: clamp(x, 0, 1 - element.width), y: clamp(y, 0, 0.95) };
+        }));
+    };
+
+    const endDrag = (e: React.PointerEvent) => {
+        if (!dragRef.current) return;
+        e.stopPropagation();
+        dragRef.current = null;
+        if (draft) onChange(draft);
+        setDraft(null);
+    };
+
+    const boxes = shown.map(element => ({ element, box: measureLettering(element) }));
+
+    return (
+        <div className={`absolute inset-0 p-3 z-10 ${editable ? '' : 'pointer-events-none'}`}>
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${LETTERING_PAGE_WIDTH} ${LETTERING_PAGE_HEIGHT}`}
+                preserveAspectRatio="xMidYMid meet"
+                className={`w-full h-full ${editable ? 'touch-none' : ''}`}
+                onPointerMove={handleMove}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+                onClick={e => { if (editable) e.stopPropagation(); }}
+                aria-label="Page lettering"
+            >
+                {boxes.map(({ element, box }) => {
+                    const tail = element.kind === 'balloon' && element.tail ? getTailPoints(box, element.tail) : null;
+                    const tailPoints = tail?.map(point => point.join(',')).join(' ');
+                    const fill = getLetteringFill(element.kind);
+
+                    return (
+                        <g key={element.id} className={editable ? 'cursor-move' : ''} onPointerDown={e => startDrag(e, element, 'box')}>
+                            {/* Outlines first, then fills, so the tail joins its balloon without a seam */}
+                            {tailPoints && <polygon points={tailPoints} fill="none" stroke="#000" strokeWidth={LETTERING_STROKE} strokeLinejoin="round" />}
+                            <rect x={box.x} y={box.y} width={box.width} height={box.height} rx={box.radius} fill="none" stroke="#000" strokeWidth={LETTERING_STROKE} />
+                            {tailPoints && <polygon points={tailPoints} fill={fill} />}
+                            <rect x={box.x} y={box.y} width={box.width} height={box.height} rx={box.radius} fill={fill} />
+                            <text
+                                fontFamily="'Comic Neue', sans-serif"
+                                fontWeight="bold"
+                                fontSize={box.fontSize}
+                                textAnchor={element.kind === 'balloon' ? 'middle' : 'start'}
+                                direction={direction}
+                                className="select-none"
+                            >
+                                {box.lines.map((line, i) => {
+                                    const { x, y } = getLinePosition(box, element.kind, i, direction);
+                                    return <tspan key={i} x={x} y={y}>{line}</tspan>;
+                                })}
+                            </text>
+                            {editable && (
+                                <rect x={box.x} y={box.y} width={box.width} height={box.height} rx={box.radius} fill="none" stroke="#2563eb" strokeWidth={3} strokeDasharray="10 6" />
+                            )}
+                        </g>
+                    );
+                })}
+
+                {/* Tail handles on top of every balloon so one can't hide another's */}
+                {editable && shown.map(element => element.kind === 'balloon' && element.tail && (
+                    <circle
+                        key={`${element.id}-tail`}
+                        cx={element.tail.x * LETTERING_PAGE_WIDTH}
+                        cy={element.tail.y * LETTERING_PAGE_HEIGHT}
+                        r={18}
+                        fill="#2563eb"
+                        stroke="#fff"
+                        strokeWidth={4}
+                        className="cursor-crosshair"
+                        onPointerDown={e => startDrag(e, element, 'tail')}
+                    />
+                ))}
+            </svg>
+        </div>
+    );
+};
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Beat, PanelBeat, ScriptReview } from '../types';
+
+interface ScriptEditorProps {
+    review: ScriptReview;
+    heroName: string;
+    friendName: string;
+    onSubmit: (beat: Beat) => void;
+    onCancel: () => void;
+}
+
+const FOCUS_OPTIONS: Array<{ value: Beat['focus_char']; label: (hero: string, friend: string) => string }> = [
+    { value: 'hero', label: hero => hero },
+    { value: 'friend', label: (_hero, friend) => friend },
+    { value: 'other', label: () => 'Scene / other' },
+];
+
+/**
+ * Script review: shows the beat the writer just produced so it can be fixed
+ * before the page is inked. Decision pages always keep two choices, and
+ * multi-panel pages list each panel under the page summary.
+ */
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ review, heroName, friendName, onSubmit, onCancel }) => {
+    const [caption, setCaption] = useState(review.beat.caption || '');
+    const [dialogue, setDialogue] = useState(review.beat.dialogue || '');
+    const [scene, setScene] = useState(review.beat.scene);
+    const [focusChar, setFocusChar] = useState<Beat['focus_char']>(review.beat.focus_char);
+    const [choices, setChoices] = useState<string[]>(
+        review.isDecisionPage ? [review.beat.choices[0] || '', review.beat.choices[1] || ''] : []
+    );
+
+    const [panels, setPanels] = useState<PanelBeat[]>(review.beat.panels ?? []);
+
+    const canSubmit = scene.trim().length > 0
+        && choices.every(choice => choice.trim().length > 0)
+        && panels.every(panel => panel.scene.trim().length > 0);
+
+    const updatePanel = (index: number, updates: Partial<PanelBeat>) =>
+        setPanels(prev => prev.map((panel, i) => (i === index ? { ...panel, ...updates } : panel)));
+
+    const handleSubmit = () => {
+        if (!canSubmit) return;
+        onSubmit({
+            ...review.beat,
+            caption: caption.trim() || undefined,
+            dialogue: dialogue.trim() || undefined,
+            scene: scene.trim(),
+            focus_char: focusChar,
+            choices: choices.map(choice => choice.trim()),
+            panels: review.beat.panels && panels.map(panel => ({
+                ...panel,
+                caption: panel.caption?.trim() || undefined,
+                dialogue: panel.dialogue?.trim() || undefined,
+                scene: panel.scene.trim(),
+            })),
+        });
+    };
+
+    const inputClass = 'w-full border-2 border-black p-2 font-sans text-sm focus:outline-none focus:shadow-[4px_4px_0px_rgba(0,0,0,0.1)] touch-manipulation';
+
+    return (
+        <div className="fixed inset-0 z-[300] bg-black/80 backdrop-blur-md flex items-center justify-center p-4">
+            <div className="w-full max-w-xl max-h-[90vh] bg-white border-[6px] border-black p-4 sm:p-6 shadow-[16px_16px_0px_rgba(0,0,0,1)] relative flex flex-col gap-3 animate-in fade-in zoom-in duration-300">
+                <h2 className="font-comic text-3xl sm:text-4xl text-blue-600 uppercase tracking-wide border-b-4 border-black pb-2">
+                    Script · Page {review.pageIndex}
+                </h2>
+
+                <div className="flex-1 overflow-y-auto flex flex-col gap-3 pr-1">
+                    <label className="flex flex-col gap-1">
+                        <span className="font-comic text-lg">SCENE</span>
+                        <textarea value={scene} onChange={e => setScene(e.target.value)} className={`${inputClass} h-24 resize-none`} />
+                    </label>
+
+                    <label className="flex flex-col gap-1">
+                        <span className="font-comic text-lg">CAPTION</span>
+                        <textarea value={caption} onChange={e => setCaption(e.target.value)} className={`${inputClass} h-16 resize-none`} placeholder="Narration box (optional)" />
+                    </label>
+
+                    <label className="flex flex-col gap-1">
+                        <span className="font-comic text-lg">DIALOGUE</span>
+                        <textarea value={dialogue} onChange={e => setDialogue(e.target.value)} className={`${inputClass} h-16 resize-none`} placeholder="Speech bubble (optional)" />
+                    </label>
+
+                    <label className="flex flex-col gap-1">
+                        <span className="font-comic text-lg">FOCUS</span>
+                        <select value={focusChar} onChange={e => setFocusChar(e.target.value as Beat['focus_char'])} className={inputClass}>
+                            {FOCUS_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label(heroName, friendName)}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    {panels.map((panel, i) => (
+                        <div key={i} className="flex flex-col gap-1 border-2 border-dashed border-gray-400 p-2">
+                            <span className="font-comic text-lg">PANEL {i + 1}</span>
+                            <textarea value={panel.scene} onChange={e => updatePanel(i, { scene: e.target.value })} className={`${inputClass} h-16 resize-none`} placeholder="Scene" />
+                            <input type="text" value={panel.caption || ''} onChange={e => updatePanel(i, { caption: e.target.value })} className={inputClass} placeholder="Caption (optional)" />
+                            <input type="text" value={panel.dialogue || ''} onChange={e => updatePanel(i, { dialogue: e.target.value })} className={inputClass} placeholder="Dialogue (optional)" />
+                        </div>
+                    ))}
+
+                    {choices.length > 0 && (
+                        <div className="flex flex-col gap-1">
+                            <span className="font-comic text-lg">CHOICES</span>
+                            {choices.map((choice, i) => (
+                                <input
+                                    key={i}
+                                    type="text"
+                                    value={choice}
+                                    onChange={e => setChoices(prev => prev.map((c, j) => (j === i ? e.target.value : c)))}
+                                    className={inputClass}
+                                    placeholder={`Choice ${String.fromCharCode(65 + i)}`}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex gap-2">
+                    <button onClick={onCancel} className="comic-btn bg-gray-300 hover:bg-gray-200 py-3 px-4 text-lg">CANCEL</button>
+                    <button
+                        onClick={handleSubmit}
+                        disabled={!canSubmit}
+                        className="flex-1 comic-btn bg-yellow-400 hover:bg-yellow-300 py-3 text-xl disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        INK THIS PAGE →
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
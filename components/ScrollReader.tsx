@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Panel } from '../Panel';
+import { ComicFace, ExportFormat } from '../types';
+import { DirectorInput } from './DirectorInput';
+import { STRIP_WIDTH } from '../utils/longStrip';
+
+interface ScrollReaderProps {
+    faces: ComicFace[];
+    gutter: number; // Same strip pixels as the long-strip export
+    showDirector: boolean;
+    isGenerating: boolean;
+    onContinue: (instruction: string) => void;
+    onDownload: (format: ExportFormat) => void;
+}
+
+/**
+ * The issue as a vertical long strip, laid out like the strip export: story
+ * pages top to bottom at full column width with the same gutters, then the
+ * back cover (or the director's prompt while the story is still going).
+ */
+export const ScrollReader: React.FC<ScrollReaderProps> = React.memo(({ faces, gutter, showDirector, isGenerating, onContinue, onDownload }) => {
+    const storyFaces = faces
+        .filter(face => face.type === 'story')
+        .sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0));
+    const backCover = faces.find(face => face.type === 'back_cover');
+    // Percentage margins resolve against the column width, so gutters scale with it like the export's
+    const gap = `${(Math.max(0, gutter) / STRIP_WIDTH) * 100}%`;
+
+    return (
+        <div className="w-full max-w-[800px] flex flex-col pb-24 bg-white shadow-2xl">
+            {storyFaces.map((face, i) => (
+                <div key={face.id} className="relative w-full aspect-[2/3]" style={{ marginTop: i > 0 ? gap : 0 }}>
+                    <Panel face={face} allFaces={faces} onOpenBook={() => {}} onDownload={onDownload} />
+                </div>
+            ))}
+            {showDirector && (
+                <div className="relative w-full aspect-[2/3]" style={{ marginTop: storyFaces.length > 0 ? gap : 0 }}>
+                    <DirectorInput onContinue={onContinue} isGenerating={isGenerating} />
+                </div>
+            )}
+            {backCover && (
+                <div className="relative w-full aspect-[2/3]" style={{ marginTop: gap }}>
+                    <Panel face={backCover} allFaces={faces} onOpenBook={() => {}} onDownload={onDownload} />
+                </div>
+            )}
+        </div>
+    );
+});
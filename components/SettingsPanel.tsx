@@ -3,12 +3,88 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI } from '@google/genai';
-import { OpenRouter } from '@openrouter/sdk';
 import React from 'react';
 import { useBook } from '../context/BookContext';
 import { useModelPresets } from '../context/ModelPresetContext';
 import { useSettings } from '../context/SettingsContext';
+import { LOCAL_BASE_URL_STORAGE, LOCAL_KEY_STORAGE, normalizeBaseUrl } from '../services/providers/localTextProvider';
+import { getImageProvider, getProvider, getTextProvider, listProviders } from '../services/providers/registry';
+import {
+  SD_BACKEND_STORAGE,
+  SD_BASE_URL_STORAGE,
+  SD_COMFY_WORKFLOW_STORAGE,
+  SD_IP_ADAPTER_STORAGE,
+  SdBackend
+} from '../services/providers/stableDiffusionProvider';
+import { ComicProvider, ProviderCapability, ProviderModel } from '../services/providers/types';
+import { AIProvider } from '../types';
+
+// Providers whose listModels() is worth surfacing as a picker
+const CATALOG_PROVIDERS: ReadonlySet<AIProvider> = new Set<AIProvider>(['openrouter', 'local', 'stable-diffusion']);
+
+const PROVIDER_ROLES: Array<{ role: ProviderCapability; label: string; hint: string }> = [
+  { role: 'text', label: 'Text Provider', hint: 'Writes the script' },
+  { role: 'image', label: 'Image Provider', hint: 'Draws characters and panels' },
+];
+
+/**
+ * Loads the model catalog for one role's provider. OpenRouter needs a key
+ * before it can list anything; refreshToken re-fetches after an endpoint changes.
+ */
+const useProviderCatalog = (providerId: AIProvider, openRouterKey: string, refreshToken: number) => {
+  const [models, setModels] = React.useState<ProviderModel[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const fetchProviderModels = async () => {
+      if (!CATALOG_PROVIDERS.has(providerId)) {
+        // Clear models when switching to a provider without a catalog
+        setModels([]);
+        return;
+      }
+
+      let apiKey: string | undefined;
+      if (providerId === 'openrouter') {
+        apiKey = openRouterKey.trim() || (typeof localStorage !== 'undefined' ? localStorage.getItem('openrouterApiKey') : null) || undefined;
+        if (!apiKey) {
+          console.log('[Settings Panel] No OpenRouter API key found, skipping model fetch');
+          setModels([]);
+          return;
+        }
+      }
+
+      const provider = getProvider(providerId);
+      setIsLoading(true);
+      console.log(`[Settings Panel] Fetching ${provider.label} models...`);
+      try {
+        const fetched = await provider.listModels(apiKey);
+        if (cancelled) return;
+        setModels(fetched);
+        console.log(`[Settings Panel] Loaded ${fetched.length} ${provider.label} models (sorted alphabetically)`);
+      } catch (error) {
+        console.error(`[Settings Panel] Failed to fetch ${provider.label} models:`, error);
+        if (!cancelled) setModels([]);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    void fetchProviderModels();
+    return () => {
+      cancelled = true;
+    };
+  }, [providerId, openRouterKey, refreshToken]);
+
+  return { models, isLoading };
+};
+
+const filterModels = (models: ProviderModel[], search: string): ProviderModel[] => {
+  if (!search.trim()) return models;
+  const needle = search.toLowerCase();
+  return models.filter(m => m.name.toLowerCase().includes(needle) || m.id.toLowerCase().includes(needle));
+};
 
 const CollapsibleSection: React.FC<{ 
   id: string;
@@ -91,9 +167,24 @@ export const SettingsPanel: React.FC = () => {
   const [isTestingOpenRouterKey, setIsTestingOpenRouterKey] = React.useState(false);
   const [openRouterTestResult, setOpenRouterTestResult] = React.useState<{ type: 'success' | 'error', message: string } | null>(null);
   
-  // OpenRouter models state
-  const [openRouterModels, setOpenRouterModels] = React.useState<Array<{ id: string; name: string }>>([]);
-  const [isLoadingModels, setIsLoadingModels] = React.useState(false);
+  // Local OpenAI-compatible endpoint state
+  const [localBaseUrlInput, setLocalBaseUrlInput] = React.useState('');
+  const [localKeyInput, setLocalKeyInput] = React.useState('');
+  const [isTestingLocal, setIsTestingLocal] = React.useState(false);
+  const [localTestResult, setLocalTestResult] = React.useState<{ type: 'success' | 'error', message: string } | null>(null);
+  const [localModelsVersion, setLocalModelsVersion] = React.useState(0);
+
+  // Local Stable Diffusion state
+  const [sdBaseUrlInput, setSdBaseUrlInput] = React.useState('');
+  const [sdBackendInput, setSdBackendInput] = React.useState<SdBackend>('automatic1111');
+  const [sdIpAdapterInput, setSdIpAdapterInput] = React.useState('');
+  const [sdWorkflowInput, setSdWorkflowInput] = React.useState('');
+  const [isTestingSd, setIsTestingSd] = React.useState(false);
+  const [sdTestResult, setSdTestResult] = React.useState<{ type: 'success' | 'error', message: string } | null>(null);
+
+  // Key/connection check per role
+  const [roleChecks, setRoleChecks] = React.useState<Partial<Record<ProviderCapability, { type: 'success' | 'error', message: string }>>>({});
+  const [checkingRole, setCheckingRole] = React.useState<ProviderCapability | null>(null);
   
   // Console log state
   const [consoleLogs, setConsoleLogs] = React.useState<Array<{ timestamp: string; type: string; message: string }>>([]);
@@ -126,6 +217,22 @@ export const SettingsPanel: React.FC = () => {
     if (storedOpenRouterKey) {
       setOpenRouterKeyInput(storedOpenRouterKey);
     }
+
+    const storedLocalBaseUrl = typeof localStorage !== 'undefined' ? localStorage.getItem(LOCAL_BASE_URL_STORAGE) : '';
+    if (storedLocalBaseUrl) {
+      setLocalBaseUrlInput(storedLocalBaseUrl);
+    }
+    const storedLocalKey = typeof localStorage !== 'undefined' ? localStorage.getItem(LOCAL_KEY_STORAGE) : '';
+    if (storedLocalKey) {
+      setLocalKeyInput(storedLocalKey);
+    }
+
+    if (typeof localStorage !== 'undefined') {
+      setSdBaseUrlInput(localStorage.getItem(SD_BASE_URL_STORAGE) || '');
+      setSdBackendInput(localStorage.getItem(SD_BACKEND_STORAGE) === 'comfyui' ? 'comfyui' : 'automatic1111');
+      setSdIpAdapterInput(localStorage.getItem(SD_IP_ADAPTER_STORAGE) || '');
+      setSdWorkflowInput(localStorage.getItem(SD_COMFY_WORKFLOW_STORAGE) || '');
+    }
   }, []);
 
   // Capture console logs
@@ -178,55 +285,6 @@ export const SettingsPanel: React.FC = () => {
     };
   }, []);
 
-  // Fetch OpenRouter models when provider is OpenRouter
-  React.useEffect(() => {
-    const fetchOpenRouterModels = async () => {
-      if (state.config.aiProvider !== 'openrouter') {
-        // Clear models when switching away from OpenRouter
-        setOpenRouterModels([]);
-        console.log('[Settings Panel] Switched to Gemini provider, clearing OpenRouter models');
-        return;
-      }
-
-      const apiKey = openRouterKeyInput.trim() || (typeof localStorage !== 'undefined' ? localStorage.getItem('openrouterApiKey') : null);
-      if (!apiKey) {
-        console.log('[Settings Panel] No OpenRouter API key found, skipping model fetch');
-        return;
-      }
-
-      setIsLoadingModels(true);
-      console.log('[Settings Panel] Fetching OpenRouter models...');
-      try {
-        const client = new OpenRouter({
-          apiKey,
-          defaultHeaders: {
-            'HTTP-Referer': typeof window !== 'undefined' ? window.location.href : 'https://infinite-heroes.app',
-            'X-Title': 'Infinite Heroes - AI Comic Book Generator',
-          },
-        });
-        const response = await client.models.list();
-        
-        if (response.data && Array.isArray(response.data)) {
-          const models = response.data.map((model: any) => ({
-            id: model.id || '',
-            name: model.name || model.id || ''
-          }))
-            .filter((m: any) => m.id)
-            .sort((a, b) => a.name.localeCompare(b.name)); // Sort alphabetically by name
-          
-          setOpenRouterModels(models);
-          console.log(`[Settings Panel] Loaded ${models.length} OpenRouter models (sorted alphabetically)`);
-        }
-      } catch (error) {
-        console.error('[Settings Panel] Failed to fetch OpenRouter models:', error);
-      } finally {
-        setIsLoadingModels(false);
-      }
-    };
-
-    fetchOpenRouterModels();
-  }, [state.config.aiProvider, openRouterKeyInput]);
-
   const handlePresetChange = (id: string) => {
     const preset = getPresetById(id) || presets.find(p => p.id === id);
     if (!preset) return;
@@ -237,6 +295,9 @@ export const SettingsPanel: React.FC = () => {
       modelPresetId: preset.id,
       modelPresetModel: preset.model,
       modelPresetPrompt: preset.prompt,
+      // Presets that pin per-role providers carry them along
+      ...(preset.textProvider && { textProvider: preset.textProvider }),
+      ...(preset.imageProvider && { imageProvider: preset.imageProvider }),
     });
   };
 
@@ -247,6 +308,8 @@ export const SettingsPanel: React.FC = () => {
       ...existing,
       model: modelDraft,
       prompt: promptDraft,
+      textProvider: textProvider.id,
+      imageProvider: imageProvider.id,
     });
     actions.updateConfig({
       modelPresetId: existing.id,
@@ -258,7 +321,12 @@ export const SettingsPanel: React.FC = () => {
   const handleCreatePreset = async () => {
     const name = window.prompt('Name your preset', 'New preset');
     if (!name) return;
-    const created = await createPreset(name, { model: modelDraft, prompt: promptDraft });
+    const created = await createPreset(name, {
+      model: modelDraft,
+      prompt: promptDraft,
+      textProvider: textProvider.id,
+      imageProvider: imageProvider.id,
+    });
     if (created) {
       setSelectedPresetId(created.id);
       actions.updateConfig({
@@ -293,13 +361,8 @@ export const SettingsPanel: React.FC = () => {
     setIsTestingKey(true);
     setTestResult(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: candidateKey });
-      const result = await ai.models.list({ config: { pageSize: 1 } });
-      const modelName = result.models?.[0]?.name || 'Gemini API';
-      setTestResult({ type: 'success', message: `✓ API key verified! Access to ${modelName}.` });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error while testing key.';
-      setTestResult({ type: 'error', message: `✗ API key test failed: ${message}` });
+      const result = await getProvider('gemini').validateKey(candidateKey);
+      setTestResult({ type: result.ok ? 'success' : 'error', message: result.message });
     } finally {
       setIsTestingKey(false);
     }
@@ -323,23 +386,8 @@ export const SettingsPanel: React.FC = () => {
     setIsTestingOpenRouterKey(true);
     setOpenRouterTestResult(null);
     try {
-      // Test OpenRouter API key by making a simple request
-      const response = await fetch('https://openrouter.ai/api/v1/models', {
-        headers: {
-          'Authorization': `Bearer ${candidateKey}`,
-        },
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        const modelCount = data.data?.length || 0;
-        setOpenRouterTestResult({ type: 'success', message: `✓ OpenRouter API key verified! Access to ${modelCount} models.` });
-      } else {
-        setOpenRouterTestResult({ type: 'error', message: `✗ API key test failed: ${response.statusText}` });
-      }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error while testing key.';
-      setOpenRouterTestResult({ type: 'error', message: `✗ API key test failed: ${message}` });
+      const result = await getProvider('openrouter').validateKey(candidateKey);
+      setOpenRouterTestResult({ type: result.ok ? 'success' : 'error', message: result.message });
     } finally {
       setIsTestingOpenRouterKey(false);
     }
@@ -353,6 +401,72 @@ export const SettingsPanel: React.FC = () => {
     }
   };
 
+  const handleSaveLocalEndpoint = async () => {
+    const candidateUrl = localBaseUrlInput.trim();
+    if (!candidateUrl) {
+      setLocalTestResult({ type: 'error', message: 'Please enter the base URL of your local server.' });
+      return;
+    }
+
+    const baseUrl = normalizeBaseUrl(candidateUrl);
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(LOCAL_BASE_URL_STORAGE, baseUrl);
+      if (localKeyInput.trim()) {
+        localStorage.setItem(LOCAL_KEY_STORAGE, localKeyInput.trim());
+      } else {
+        localStorage.removeItem(LOCAL_KEY_STORAGE);
+      }
+    }
+    setLocalBaseUrlInput(baseUrl);
+
+    setIsTestingLocal(true);
+    setLocalTestResult(null);
+    try {
+      const result = await getProvider('local').validateKey(localKeyInput.trim());
+      setLocalTestResult({ type: result.ok ? 'success' : 'error', message: result.message });
+      if (result.ok) setLocalModelsVersion(v => v + 1);
+    } finally {
+      setIsTestingLocal(false);
+    }
+  };
+
+  const handleSaveSdSettings = async () => {
+    const baseUrl = sdBaseUrlInput.trim().replace(/\/+$/, '');
+    if (!baseUrl) {
+      setSdTestResult({ type: 'error', message: 'Please enter the base URL of your Stable Diffusion server.' });
+      return;
+    }
+    if (sdBackendInput === 'comfyui' && sdWorkflowInput.trim()) {
+      try {
+        JSON.parse(sdWorkflowInput);
+      } catch {
+        setSdTestResult({ type: 'error', message: 'The ComfyUI workflow must be valid JSON (use "Save (API Format)").' });
+        return;
+      }
+    }
+
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(SD_BASE_URL_STORAGE, baseUrl);
+      localStorage.setItem(SD_BACKEND_STORAGE, sdBackendInput);
+      const optional: Array<[string, string]> = [
+        [SD_IP_ADAPTER_STORAGE, sdIpAdapterInput.trim()],
+        [SD_COMFY_WORKFLOW_STORAGE, sdWorkflowInput.trim()],
+      ];
+      optional.forEach(([key, value]) => (value ? localStorage.setItem(key, value) : localStorage.removeItem(key)));
+    }
+    setSdBaseUrlInput(baseUrl);
+
+    setIsTestingSd(true);
+    setSdTestResult(null);
+    try {
+      const result = await getProvider('stable-diffusion').validateKey('');
+      setSdTestResult({ type: result.ok ? 'success' : 'error', message: result.message });
+      if (result.ok) setLocalModelsVersion(v => v + 1);
+    } finally {
+      setIsTestingSd(false);
+    }
+  };
+
   const handleDownloadLogs = () => {
     const logContent = consoleLogs.map(log => `[${log.timestamp}] [${log.type.toUpperCase()}] ${log.message}`).join('\n');
     const blob = new Blob([logContent], { type: 'text/plain' });
@@ -389,13 +503,42 @@ export const SettingsPanel: React.FC = () => {
     });
   };
 
-  const filteredModels = React.useMemo(() => {
-    if (!modelSearch.trim()) return openRouterModels;
-    const search = modelSearch.toLowerCase();
-    return openRouterModels.filter(m => 
-      m.name.toLowerCase().includes(search) || m.id.toLowerCase().includes(search)
-    );
-  }, [openRouterModels, modelSearch]);
+  // Effective backend per role. Text-only and image-only providers hand the other role to Gemini.
+  const resolveRoleProvider = (role: ProviderCapability): ComicProvider => {
+    const provider = role === 'text' ? getTextProvider(state.config) : getImageProvider(state.config);
+    return provider.capabilities.includes(role) ? provider : getProvider('gemini');
+  };
+  const textProvider = resolveRoleProvider('text');
+  const imageProvider = resolveRoleProvider('image');
+
+  // Model catalogs for providers that can list models (OpenRouter, local endpoint, SD checkpoints)
+  const textCatalog = useProviderCatalog(textProvider.id, openRouterKeyInput, localModelsVersion);
+  const imageCatalog = useProviderCatalog(imageProvider.id, openRouterKeyInput, localModelsVersion);
+  const filteredTextModels = React.useMemo(() => filterModels(textCatalog.models, modelSearch), [textCatalog.models, modelSearch]);
+  const filteredImageModels = React.useMemo(() => filterModels(imageCatalog.models, modelSearch), [imageCatalog.models, modelSearch]);
+  const activeProviderIds = [textProvider.id, imageProvider.id];
+
+  const handleRoleProviderChange = (role: ProviderCapability, providerId: string) => {
+    // A model id only means something to the provider it was picked from
+    actions.updateConfig(role === 'text' ? { textProvider: providerId, textModel: '' } : { imageProvider: providerId, imageModel: '' });
+    setRoleChecks(prev => ({ ...prev, [role]: undefined }));
+  };
+
+  const handleCheckRoleKey = async (role: ProviderCapability) => {
+    const provider = role === 'text' ? textProvider : imageProvider;
+    const storedKey = provider.apiKeyStorageKey && typeof localStorage !== 'undefined'
+      ? localStorage.getItem(provider.apiKeyStorageKey)
+      : null;
+
+    setCheckingRole(role);
+    setRoleChecks(prev => ({ ...prev, [role]: undefined }));
+    try {
+      const result = await provider.validateKey(storedKey || '');
+      setRoleChecks(prev => ({ ...prev, [role]: { type: result.ok ? 'success' : 'error', message: result.message } }));
+    } finally {
+      setCheckingRole(null);
+    }
+  };
 
   const filteredLogs = React.useMemo(() => {
     if (consoleFilter === 'all') return consoleLogs;
@@ -418,9 +561,8 @@ export const SettingsPanel: React.FC = () => {
             <div className="flex-1 min-w-0">
               <p className="font-comic text-lg sm:text-xl text-gray-900 truncate">Settings</p>
               <p className="text-[10px] sm:text-xs text-gray-600 truncate">
-                {state.config.aiProvider === 'openrouter' ? '🔄 OpenRouter' : '✨ Gemini'} • 
-                Text: {state.config.textModel || 'default'} • 
-                Image: {state.config.imageModel || 'default'}
+                Text: {textProvider.label} / {state.config.textModel || 'default'} • 
+                Image: {imageProvider.label} / {state.config.imageModel || 'default'}
               </p>
             </div>
             <div className="flex items-center gap-1 sm:gap-2 flex-shrink-0">
@@ -440,25 +582,47 @@ export const SettingsPanel: React.FC = () => {
         </div>
 
         <div className="px-3 sm:px-4 py-3 sm:py-4 space-y-4 sm:space-y-5">
-          <Section title="AI Provider Configuration" description="Select your AI provider and models for text and image generation">
+          <Section title="AI Provider Configuration" description="Pick a backend for the script and one for the art. They can differ, e.g. OpenRouter text with Gemini images">
             <div className="space-y-3">
-              <div>
-                <FieldLabel label="Provider" hint="Choose between Gemini or OpenRouter" />
-                <select
-                  value={state.config.aiProvider}
-                  onChange={e => actions.updateConfig({ aiProvider: e.target.value as 'gemini' | 'openrouter' })}
-                  className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
-                >
-                  <option value="gemini">Gemini</option>
-                  <option value="openrouter">OpenRouter</option>
-                </select>
-              </div>
+              {PROVIDER_ROLES.map(({ role, label, hint }) => {
+                const provider = role === 'text' ? textProvider : imageProvider;
+                const check = roleChecks[role];
+                return (
+                  <div key={role}>
+                    <FieldLabel label={label} hint={hint} />
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={provider.id}
+                        onChange={e => handleRoleProviderChange(role, e.target.value)}
+                        className="flex-1 min-w-0 border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
+                      >
+                        {listProviders(role).map(option => (
+                          <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        className="comic-btn bg-blue-500 text-white text-xs px-3 py-2.5 sm:py-2 hover:bg-blue-400 disabled:opacity-60 disabled:cursor-not-allowed touch-manipulation min-h-[44px] sm:min-h-0 flex-shrink-0"
+                        onClick={() => { void handleCheckRoleKey(role); }}
+                        disabled={checkingRole !== null}
+                        title={provider.apiKeyStorageKey ? `Validate the saved ${provider.label} key` : `Check the ${provider.label} connection`}
+                      >
+                        {checkingRole === role ? '🔄' : '🔑 Check'}
+                      </button>
+                    </div>
+                    {check && (
+                      <p className={`text-xs font-mono mt-1 ${check.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+                        {check.message}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
               <div className="grid grid-cols-1 gap-2 sm:gap-3">
                 <div>
                   <FieldLabel label="Text Generation Model" hint="Model for narrative/dialogue" />
-                  {state.config.aiProvider === 'openrouter' && openRouterModels.length > 0 ? (
+                  {textCatalog.models.length > 0 ? (
                     <>
-                      {openRouterModels.length > 10 && (
+                      {textCatalog.models.length > 10 && (
                         <input
                           type="text"
                           value={modelSearch}
@@ -471,16 +635,16 @@ export const SettingsPanel: React.FC = () => {
                         value={state.config.textModel}
                         onChange={e => actions.updateConfig({ textModel: e.target.value })}
                         className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
-                        disabled={isLoadingModels}
+                        disabled={textCatalog.isLoading}
                       >
                         <option value="">Select a model...</option>
-                        {filteredModels.map(model => (
+                        {filteredTextModels.map(model => (
                           <option key={model.id} value={model.id}>
                             {model.name}
                           </option>
                         ))}
                       </select>
-                      {modelSearch && filteredModels.length === 0 && (
+                      {modelSearch && filteredTextModels.length === 0 && (
                         <p className="text-xs text-gray-600 mt-1">No models match &quot;{modelSearch}&quot;</p>
                       )}
                     </>
@@ -490,24 +654,24 @@ export const SettingsPanel: React.FC = () => {
                       value={state.config.textModel}
                       onChange={e => actions.updateConfig({ textModel: e.target.value })}
                       className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
-                      placeholder={state.config.aiProvider === 'gemini' ? 'gemini-3-flash-preview' : 'openai/gpt-4-turbo-preview'}
+                      placeholder={textProvider.id === 'gemini' ? 'gemini-3-flash-preview' : textProvider.id === 'local' ? 'llama3.1:8b' : 'openai/gpt-4-turbo-preview'}
                     />
                   )}
-                  {state.config.aiProvider === 'openrouter' && isLoadingModels && (
+                  {textCatalog.isLoading && (
                     <p className="text-xs text-gray-600 mt-1">Loading models...</p>
                   )}
                 </div>
                 <div>
                   <FieldLabel label="Image Generation Model" hint="Model for visuals" />
-                  {state.config.aiProvider === 'openrouter' && openRouterModels.length > 0 ? (
+                  {imageCatalog.models.length > 0 ? (
                     <select
                       value={state.config.imageModel}
                       onChange={e => actions.updateConfig({ imageModel: e.target.value })}
                       className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
-                      disabled={isLoadingModels}
+                      disabled={imageCatalog.isLoading}
                     >
                       <option value="">Select a model...</option>
-                      {filteredModels.map(model => (
+                      {filteredImageModels.map(model => (
                         <option key={model.id} value={model.id}>
                           {model.name}
                         </option>
@@ -519,18 +683,39 @@ export const SettingsPanel: React.FC = () => {
                       value={state.config.imageModel}
                       onChange={e => actions.updateConfig({ imageModel: e.target.value })}
                       className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
-                      placeholder={state.config.aiProvider === 'gemini' ? 'gemini-3-pro-image-preview' : 'openai/dall-e-3'}
+                      placeholder={imageProvider.id === 'stable-diffusion' ? 'Checkpoint name' : imageProvider.id === 'gemini' ? 'gemini-3-pro-image-preview' : 'openai/dall-e-3'}
                     />
                   )}
-                  {state.config.aiProvider === 'openrouter' && isLoadingModels && (
+                  {imageCatalog.isLoading && (
                     <p className="text-xs text-gray-600 mt-1">Loading models...</p>
                   )}
                 </div>
               </div>
-              {state.config.aiProvider === 'openrouter' && (
+              {textProvider.id === 'local' && (
                 <div className="bg-blue-50 border border-blue-300 rounded p-3">
                   <p className="text-xs text-blue-800 leading-relaxed">
-                    <strong>Note:</strong> {openRouterModels.length === 0 && !isLoadingModels ? 'Save your OpenRouter API key below to load available models. ' : ''}
+                    <strong>Local text:</strong> Story scripts are written by your own OpenAI-compatible server (configure it below).
+                  </p>
+                </div>
+              )}
+              {imageProvider.id === 'stable-diffusion' && (
+                <div className="bg-blue-50 border border-blue-300 rounded p-3">
+                  <p className="text-xs text-blue-800 leading-relaxed">
+                    <strong>Local images:</strong> Characters and panels are drawn by your Stable Diffusion server (configure it below).
+                  </p>
+                </div>
+              )}
+              {activeProviderIds.includes('mock') && (
+                <div className="bg-amber-50 border border-amber-300 rounded p-3">
+                  <p className="text-xs text-amber-800 leading-relaxed">
+                    <strong>Offline mode:</strong> The mock provider writes deterministic placeholder beats and draws panels locally. No API key or network connection is needed, and its model fields are ignored.
+                  </p>
+                </div>
+              )}
+              {activeProviderIds.includes('openrouter') && (
+                <div className="bg-blue-50 border border-blue-300 rounded p-3">
+                  <p className="text-xs text-blue-800 leading-relaxed">
+                    <strong>Note:</strong> {!openRouterKeyInput.trim() ? 'Save your OpenRouter API key below to load available models. ' : ''}
                     OpenRouter requires its own API key. Get one from{' '}
                     <a 
                       href="https://openrouter.ai/keys" 
@@ -666,6 +851,124 @@ export const SettingsPanel: React.FC = () => {
             </div>
           </Section>
 
+          <Section title="Local Text Endpoint" description="OpenAI-compatible server such as Ollama, llama.cpp or LM Studio. Story text stays on this host.">
+            <div className="space-y-3">
+              <div>
+                <FieldLabel label="Base URL" hint="Without /v1" />
+                <input
+                  type="url"
+                  value={localBaseUrlInput}
+                  onChange={(e) => setLocalBaseUrlInput(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2.5 sm:py-2 font-mono text-sm touch-manipulation min-h-[44px] sm:min-h-0"
+                  placeholder="http://localhost:11434"
+                />
+              </div>
+              <div>
+                <FieldLabel label="API Key" hint="Optional" />
+                <input
+                  type="password"
+                  value={localKeyInput}
+                  onChange={(e) => setLocalKeyInput(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2.5 sm:py-2 font-mono text-sm touch-manipulation min-h-[44px] sm:min-h-0"
+                  placeholder="Leave empty for most local servers"
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  className="comic-btn bg-green-500 text-white text-xs sm:text-sm px-3 py-2.5 sm:py-2 hover:bg-green-400 disabled:opacity-60 disabled:cursor-not-allowed touch-manipulation min-h-[44px] sm:min-h-0"
+                  onClick={handleSaveLocalEndpoint}
+                  disabled={isTestingLocal}
+                >
+                  {isTestingLocal ? '🔄 Connecting...' : '💾 Save & Test'}
+                </button>
+              </div>
+              {localTestResult && (
+                <div className={`p-3 rounded border text-sm font-mono ${
+                  localTestResult.type === 'success'
+                    ? 'bg-green-50 border-green-300 text-green-800'
+                    : 'bg-red-50 border-red-300 text-red-800'
+                }`}>
+                  {localTestResult.message}
+                </div>
+              )}
+              <div className="bg-amber-50 border border-amber-300 rounded p-3">
+                <p className="text-xs text-amber-800 leading-relaxed">
+                  <strong>Note:</strong> The browser calls your server directly, so it must allow cross-origin requests (e.g. <code>OLLAMA_ORIGINS=*</code> for Ollama).
+                </p>
+              </div>
+            </div>
+          </Section>
+
+          <Section title="Local Stable Diffusion" description="Automatic1111 (--api) or ComfyUI server for panel and character art">
+            <div className="space-y-3">
+              <div>
+                <FieldLabel label="Backend" />
+                <select
+                  value={sdBackendInput}
+                  onChange={(e) => setSdBackendInput(e.target.value === 'comfyui' ? 'comfyui' : 'automatic1111')}
+                  className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
+                >
+                  <option value="automatic1111">Automatic1111 / Forge</option>
+                  <option value="comfyui">ComfyUI</option>
+                </select>
+              </div>
+              <div>
+                <FieldLabel label="Base URL" />
+                <input
+                  type="url"
+                  value={sdBaseUrlInput}
+                  onChange={(e) => setSdBaseUrlInput(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2.5 sm:py-2 font-mono text-sm touch-manipulation min-h-[44px] sm:min-h-0"
+                  placeholder={sdBackendInput === 'comfyui' ? 'http://127.0.0.1:8188' : 'http://127.0.0.1:7860'}
+                />
+              </div>
+              {sdBackendInput === 'automatic1111' ? (
+                <div>
+                  <FieldLabel label="IP-Adapter Model" hint="Optional, needs ControlNet" />
+                  <input
+                    type="text"
+                    value={sdIpAdapterInput}
+                    onChange={(e) => setSdIpAdapterInput(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2.5 sm:py-2 font-mono text-sm touch-manipulation min-h-[44px] sm:min-h-0"
+                    placeholder="ip-adapter_sd15 [6a3f6166]"
+                  />
+                  <p className="text-[11px] text-gray-600 mt-1">Used to keep characters on-model from their reference images. World images are applied through img2img.</p>
+                </div>
+              ) : (
+                <div>
+                  <FieldLabel label="Workflow (API format)" hint="Optional" />
+                  <textarea
+                    value={sdWorkflowInput}
+                    onChange={(e) => setSdWorkflowInput(e.target.value)}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2 font-mono text-xs h-28 touch-manipulation"
+                    placeholder='{"3": {"class_type": "KSampler", ...}}'
+                  />
+                  <p className="text-[11px] text-gray-600 mt-1">
+                    Placeholders: {'{{prompt}}'}, {'{{negative_prompt}}'}, {'{{width}}'}, {'{{height}}'}, {'{{seed}}'}, {'{{model}}'}, {'{{hero_image}}'}, {'{{world_image}}'}. Leave empty for a basic txt2img graph.
+                  </p>
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  className="comic-btn bg-green-500 text-white text-xs sm:text-sm px-3 py-2.5 sm:py-2 hover:bg-green-400 disabled:opacity-60 disabled:cursor-not-allowed touch-manipulation min-h-[44px] sm:min-h-0"
+                  onClick={handleSaveSdSettings}
+                  disabled={isTestingSd}
+                >
+                  {isTestingSd ? '🔄 Connecting...' : '💾 Save & Test'}
+                </button>
+              </div>
+              {sdTestResult && (
+                <div className={`p-3 rounded border text-sm font-mono ${
+                  sdTestResult.type === 'success'
+                    ? 'bg-green-50 border-green-300 text-green-800'
+                    : 'bg-red-50 border-red-300 text-red-800'
+                }`}>
+                  {sdTestResult.message}
+                </div>
+              )}
+            </div>
+          </Section>
+
           <Section title="Model Presets" description="Store prompt baselines with your offline library and pick one for this book">
             <div className="space-y-3">
               <div>
@@ -771,7 +1074,7 @@ export const SettingsPanel: React.FC = () => {
 
               <div className="grid grid-cols-2 gap-3">
                 <div>
-                  <FieldLabel label="Parallel pages" hint="Throttle generation" />
+                  <FieldLabel label="Parallel pages" hint="Pages inked at once" />
                   <select
                     value={draft.concurrentGenerations}
                     onChange={e => updateDraft({ concurrentGenerations: Number(e.target.value) })}
@@ -832,17 +1135,42 @@ export const SettingsPanel: React.FC = () => {
                   <option value="cinematic">Cinematic</option>
                 </select>
               </div>
+              <label className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-800 touch-manipulation min-h-[44px]">
+                <input
+                  type="checkbox"
+                  checked={draft.speculativePrefetch}
+                  onChange={e => updateDraft({ speculativePrefetch: e.target.checked })}
+                  className="w-5 h-5 sm:w-4 sm:h-4"
+                />
+                Prefetch upcoming pages
+              </label>
               <div>
-                <FieldLabel label="Prefetch depth" />
+                <FieldLabel label="Prefetch depth" hint="Pages made ahead" />
                 <input
                   type="number"
                   min={0}
                   max={6}
                   value={draft.prefetchDepth}
                   onChange={e => updateDraft({ prefetchDepth: Number(e.target.value) })}
-                  className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
+                  disabled={!draft.speculativePrefetch}
+                  className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0 disabled:opacity-50"
+                />
+              </div>
+              <div>
+                <FieldLabel label="Prefetch budget" hint="Discarded pages per issue" />
+                <input
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={draft.prefetchBudget}
+                  onChange={e => updateDraft({ prefetchBudget: Number(e.target.value) })}
+                  disabled={!draft.speculativePrefetch}
+                  className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0 disabled:opacity-50"
                 />
               </div>
+              <p className="col-span-2 text-xs text-gray-600">
+                Writes and inks the next pages while you read, assuming no new direction. They are thrown away if you steer the story elsewhere, so they cost API calls; the budget stops prefetching for the issue once that many pages were wasted. Off while script review is on.
+              </p>
             </div>
           </Section>
 
@@ -977,7 +1305,7 @@ export const SettingsPanel: React.FC = () => {
             </div>
           </Section>
 
-          <Section title="Exports" description="Defaults for PDF and downloads">
+          <Section title="Exports" description="Defaults for PDF, long-strip and other downloads">
             <div className="grid grid-cols-2 gap-2 sm:gap-3">
               <div>
                 <FieldLabel label="PDF quality" />
@@ -986,9 +1314,9 @@ export const SettingsPanel: React.FC = () => {
                   onChange={e => updateDraft({ pdfQuality: e.target.value as typeof draft.pdfQuality })}
                   className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
                 >
-                  <option value="compact">Compact</option>
+                  <option value="compact">Compact (smaller file)</option>
                   <option value="standard">Standard</option>
-                  <option value="print">Print</option>
+                  <option value="print">Print (comic trim + bleed)</option>
                 </select>
               </div>
               <label className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-800 touch-manipulation min-h-[44px]">
@@ -998,7 +1326,7 @@ export const SettingsPanel: React.FC = () => {
                   onChange={e => updateDraft({ includeMetadata: e.target.checked })}
                   className="w-5 h-5 sm:w-4 sm:h-4"
                 />
-                Include metadata
+                Include metadata and script
               </label>
               <div>
                 <FieldLabel label="Default export range" />
@@ -1012,6 +1340,53 @@ export const SettingsPanel: React.FC = () => {
                   <option value="covers-only">Covers</option>
                 </select>
               </div>
+              <div>
+                <FieldLabel label="Strip format" hint="Long-strip export" />
+                <select
+                  value={draft.stripFormat}
+                  onChange={e => updateDraft({ stripFormat: e.target.value as typeof draft.stripFormat })}
+                  className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
+                >
+                  <option value="png">PNG</option>
+                  <option value="webp">WebP (smaller)</option>
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-xs sm:text-sm font-semibold text-gray-800 touch-manipulation min-h-[44px]">
+                <input
+                  type="checkbox"
+                  checked={draft.stripSingleImage}
+                  onChange={e => updateDraft({ stripSingleImage: e.target.checked })}
+                  className="w-5 h-5 sm:w-4 sm:h-4"
+                />
+                Strip as one tall image
+              </label>
+              <div>
+                <FieldLabel label="Strip gutter" hint="Also used by scroll mode" />
+                <input
+                  type="number"
+                  min={0}
+                  max={400}
+                  step={10}
+                  value={draft.stripGutter}
+                  onChange={e => updateDraft({ stripGutter: Number(e.target.value) })}
+                  className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0"
+                />
+                <p className="text-xs text-gray-600">px at 800px wide</p>
+              </div>
+              <div>
+                <FieldLabel label="Slice height" />
+                <input
+                  type="number"
+                  min={400}
+                  max={32000}
+                  step={80}
+                  value={draft.stripSliceHeight}
+                  disabled={draft.stripSingleImage}
+                  onChange={e => updateDraft({ stripSliceHeight: Number(e.target.value) })}
+                  className="w-full border border-gray-300 rounded-md px-2 py-2.5 sm:py-2 touch-manipulation min-h-[44px] sm:min-h-0 disabled:opacity-50"
+                />
+                <p className="text-xs text-gray-600">max px per image</p>
+              </div>
             </div>
           </Section>
         </div>
@@ -4,9 +4,12 @@
 */
 
 import React from 'react';
+import { IssueLibrary } from './IssueLibrary';
 import { useBook } from '../context/BookContext';
 import { useSettings } from '../context/SettingsContext';
 import { useNetworkStatus } from '../hooks/useNetworkStatus';
+import { ComicIssue } from '../types';
+import { PROJECT_EXTENSION } from '../utils/projectFile';
 
 const StatusChip: React.FC<{ label: string; tone?: 'info' | 'warn' | 'success' }>
   = ({ label, tone = 'info' }) => {
@@ -28,10 +31,13 @@ export const TopBar: React.FC = () => {
   const { togglePanel, isDirty, settings } = useSettings();
   const networkStatus = useNetworkStatus();
   const [isCollapsed, setIsCollapsed] = React.useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = React.useState(false);
 
   const activeTasks = state.loadingProgress
     ? `${state.loadingProgress.current}/${state.loadingProgress.total}`
     : 'Idle';
+  // Pages whose script is a stand-in because the model's reply could not be used
+  const fallbackPages = state.comicFaces.filter(face => face.narrative?.fallback).length;
 
   const handleNewBook = () => {
     const wasInSetup = state.status === 'setup';
@@ -50,13 +56,35 @@ export const TopBar: React.FC = () => {
 
   const handleLibrary = () => {
     actions.loadWorlds().catch(() => actions.addNotification('warning', 'Unable to refresh library right now'));
-    actions.addNotification('info', 'Refreshing your saved worlds…');
+    setIsLibraryOpen(true);
   };
 
-  const handleExportHint = () => {
-    actions.addNotification('info', 'Use the Download option inside the book to export to PDF');
+  const handleOpenIssue = (issue: ComicIssue) => {
+    const isGenerating = state.loadingProgress !== null || state.comicFaces.some(face => face.isLoading);
+    if (isGenerating && !window.confirm('Open this issue? Ongoing generation will be cancelled.')) return;
+
+    actions.resumeIssue(issue);
+    setIsLibraryOpen(false);
+    actions.addNotification('success', `Reopened "${issue.title}"`, 3000);
   };
 
+  const handleImport = async (file: File) => {
+    const isGenerating = state.loadingProgress !== null || state.comicFaces.some(face => face.isLoading);
+    if (isGenerating && !window.confirm('Import this file? Ongoing generation will be cancelled.')) return;
+
+    try {
+      const isProject = file.name.toLowerCase().endsWith(`.${PROJECT_EXTENSION}`);
+      const issue = isProject ? await actions.importProject(file) : await actions.importCbz(file);
+      setIsLibraryOpen(false);
+      actions.addNotification('success', `Imported "${issue.title}"`, 3000);
+    } catch (error) {
+      console.error('Failed to import file:', error);
+      const detail = error instanceof Error ? error.message.replace(/^[A-Z]+_[A-Z_]+: /, '') : '';
+      actions.addNotification('error', detail || 'Could not import that file.');
+    }
+  };
+
+
   const statusLabel = state.status === 'generating'
     ? 'Generating panels'
     : state.status === 'reading'
@@ -68,6 +96,16 @@ export const TopBar: React.FC = () => {
     : 'Ready for your next move';
 
   return (
+    <>
+    {isLibraryOpen && (
+      <IssueLibrary
+        onOpen={handleOpenIssue}
+        onDelete={actions.deleteIssue}
+        onImport={handleImport}
+        onClose={() => setIsLibraryOpen(false)}
+        addNotification={actions.addNotification}
+      />
+    )}
     <header className={`fixed top-0 inset-x-0 z-40 bg-white/95 backdrop-blur border-b-4 border-black shadow-lg transition-all duration-300 ${isCollapsed ? 'translate-y-0' : ''}`}>
       <div className={`max-w-6xl mx-auto px-3 sm:px-4 ${isCollapsed ? 'py-2' : 'py-2 sm:py-3'} flex items-center justify-between gap-2 sm:gap-3`}>
         <div className="flex items-center gap-2 sm:gap-3 min-w-0">
@@ -89,7 +127,7 @@ export const TopBar: React.FC = () => {
           <nav className="hidden md:flex items-center gap-2">
             <button className="comic-btn bg-white text-black text-sm px-3 py-2" onClick={handleNewBook}>New Book</button>
             <button className="comic-btn bg-white text-black text-sm px-3 py-2" onClick={handleLibrary}>Library</button>
-            <button className="comic-btn bg-white text-black text-sm px-3 py-2" onClick={handleExportHint}>Export</button>
+            <button className="comic-btn bg-white text-black text-sm px-3 py-2" onClick={actions.exportProject} title={`Save the whole story as a .${PROJECT_EXTENSION} project to open on another device`}>Export</button>
           </nav>
         )}
 
@@ -108,6 +146,7 @@ export const TopBar: React.FC = () => {
               )}
               <StatusChip label={statusLabel} tone={state.status === 'generating' ? 'warn' : 'info'} />
               <StatusChip label={`Tasks: ${activeTasks}`} tone={state.loadingProgress ? 'warn' : 'success'} />
+              {fallbackPages > 0 && <StatusChip label={`⚠️ Stand-in scripts: ${fallbackPages}`} tone="warn" />}
               {isDirty && <StatusChip label="Unsaved settings" tone="warn" />}
             </div>
           )}
@@ -121,5 +160,6 @@ export const TopBar: React.FC = () => {
         </div>
       </div>
     </header>
+    </>
   );
 };
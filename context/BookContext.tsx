@@ -6,7 +6,7 @@
 
 import React, { createContext, useContext, ReactNode } from 'react';
 import { useComicEngine } from '../hooks/useComicEngine';
-import { ComicState, Persona, StoryConfig, World, NotificationType } from '../types';
+import { Beat, ComicIssue, ComicState, LetteringElement, Persona, StoryConfig, World, NotificationType } from '../types';
 
 interface BookContextType {
   state: ComicState;
@@ -23,10 +23,28 @@ interface BookContextType {
     launchStory: () => void;
     continueStory: (userGuidance: string) => void;
     handleChoice: (pageIndex: number, choice: string) => void;
+    exploreChoice: (pageIndex: number, choice: string) => void;
+    switchBranch: (branchId: string) => void;
+    translateIssue: (language: string) => Promise<void>;
+    switchEdition: (language: string | null) => void;
     setSheetIndex: (idx: number) => void;
     reset: () => void;
     startNewBook: () => void;
+    resumeIssue: (issue: ComicIssue) => void;
+    importCbz: (file: File) => Promise<ComicIssue>;
+    exportProject: () => void;
+    importProject: (file: File) => Promise<ComicIssue>;
+    deleteIssue: (id: string) => Promise<void>;
+    startNextIssue: () => Promise<void>;
+    submitScript: (beat: Beat) => void;
+    reinkPage: (pageIndex: number) => void;
+    rewritePage: (pageIndex: number) => void;
+    selectTake: (pageIndex: number, takeIndex: number) => void;
+    updateLettering: (pageIndex: number, lettering: LetteringElement[]) => void;
     abortGeneration: () => void;
+    cancelJob: (id: string) => void;
+    retryJob: (id: string) => void;
+    dismissJob: (id: string) => void;
     clearError: () => void;
     addNotification: (type: NotificationType, message: string, duration?: number) => void;
     removeNotification: (id: string) => void;
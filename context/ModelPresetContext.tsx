@@ -112,6 +112,8 @@ export const ModelPresetProvider: React.FC<{ children: React.ReactNode }> = ({ c
       id,
       name,
       provider: base?.provider || defaults.provider,
+      textProvider: base?.textProvider,
+      imageProvider: base?.imageProvider,
       textModel: base?.textModel || defaults.textModel,
       imageModel: base?.imageModel || defaults.imageModel,
       textPrompt: base?.textPrompt || defaults.textPrompt,
@@ -24,12 +24,18 @@ export interface Settings {
   lazyThumbnails: boolean;
   thumbnailQuality: 'balanced' | 'performance' | 'detailed';
   animationDensity: AnimationDensity;
+  speculativePrefetch: boolean; // Write and ink the next pages before the director asks
   prefetchDepth: number;
+  prefetchBudget: number;      // Prefetched pages that may be thrown away per issue before prefetching stops
   logVerbosity: LogVerbosity;
   stickyNotifications: boolean;
   pdfQuality: 'compact' | 'standard' | 'print';
   includeMetadata: boolean;
   defaultExportRange: ExportRange;
+  stripGutter: number;
+  stripSliceHeight: number;
+  stripFormat: 'png' | 'webp';
+  stripSingleImage: boolean;
   // AI Provider settings
   aiProvider: AIProvider;
   textModel: string;
@@ -63,12 +69,18 @@ const defaultSettings: Settings = {
   lazyThumbnails: true,
   thumbnailQuality: 'balanced',
   animationDensity: 'balanced',
+  speculativePrefetch: false,
   prefetchDepth: 2,
+  prefetchBudget: 6,
   logVerbosity: 'normal',
   stickyNotifications: false,
   pdfQuality: 'standard',
   includeMetadata: true,
   defaultExportRange: 'all',
+  stripGutter: 40,
+  stripSliceHeight: 1280,
+  stripFormat: 'png',
+  stripSingleImage: false,
   // AI Provider defaults
   aiProvider: 'gemini',
   textModel: 'gemini-3-flash-preview',
@@ -4,15 +4,21 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useReducer, useCallback, useRef } from 'react';
+import React, { useReducer, useCallback, useRef, useState } from 'react';
 import { DEFAULT_MODEL_PRESETS } from '../context/ModelPresetContext';
+import { useSettings } from '../context/SettingsContext';
 import { AiService } from '../services/aiService';
+import { JobQueue, TAKE_PRIORITY, getPageProgress } from '../services/jobQueue';
 import { logger } from '../services/logger';
+import { getImageProvider, getTextProvider } from '../services/providers/registry';
 import { StorageService } from '../services/storage';
 import {
+  Beat,
   ComicState,
   ComicAction,
   ComicFace,
+  ComicIssue,
+  SeriesContinuity,
   StoryConfig,
   Persona,
   World,
@@ -23,11 +29,42 @@ import {
   TONES,
   LANGUAGES,
   INITIAL_PAGES,
-  TOTAL_PAGES,
-  BACK_COVER_PAGE,
   BATCH_SIZE,
-  DECISION_PAGES
+  DEFAULT_DECISION_PAGES,
+  DEFAULT_STORY_PAGES,
+  MAX_PAGE_TAKES,
+  GenerationJob,
+  GenerationJobKind,
+  LetteringElement,
+  LoadingProgress,
+  PageTake,
+  ScriptReview,
+  StoryBranch
 } from '../types';
+import {
+  TRUNK_BRANCH_ID,
+  composeBranchPath,
+  createTrunk,
+  findBranchForChoice,
+  stashBranchPath
+} from '../utils/branches';
+import { buildIssueFromCbz, readCbz } from '../utils/cbz';
+import { buildIssueRecap, getIssueTitle } from '../utils/continuity';
+import { downloadBlob } from '../utils/download';
+import { collectEditionTexts, getEditionSource, mapEditionTexts } from '../utils/editions';
+import { getIssueLayout } from '../utils/issueLayout';
+import { buildLettering } from '../utils/lettering';
+import { composePage } from '../utils/pageCompositor';
+import { getFrameShape, getPageLayout, getPanelBeats, mirrorPageLayout } from '../utils/pageLayouts';
+import { PROJECT_EXTENSION, buildProjectFile, readProjectFile } from '../utils/projectFile';
+import { getReadingDirection } from '../utils/readingDirection';
+
+// Debounce window before a finished page is written to the issue library
+const ISSUE_AUTOSAVE_DELAY = 1500;
+// Strings sent per translation request
+const TRANSLATION_BATCH_SIZE = 40;
+// Quiet time after a batch before pages are prefetched, so the reader's next move wins
+const PREFETCH_DELAY = 2000;
 
 const initialState: ComicState = {
   status: 'setup',
@@ -44,6 +81,9 @@ const initialState: ComicState = {
     customPremise: "",
     openingPrompt: "",
     richMode: true,
+    storyPages: DEFAULT_STORY_PAGES,
+    decisionPages: DEFAULT_DECISION_PAGES,
+    letteringMode: 'overlay',
     modelPresetId: DEFAULT_MODEL_PRESETS[0]?.id || 'default-gemini-flash',
     modelPresetModel: DEFAULT_MODEL_PRESETS[0]?.model || 'gemini-3-flash-preview',
     modelPresetPrompt: DEFAULT_MODEL_PRESETS[0]?.prompt || '',
@@ -64,9 +104,208 @@ const initialState: ComicState = {
     textPrompt: DEFAULT_MODEL_PRESETS[0]?.prompt || 'Prioritize brisk, punchy pacing with visually clear actions.',
     imagePrompt: 'Generate vivid, detailed comic book art with clear character focus and dynamic composition.',
   },
+  currentIssue: null,
   loadingProgress: null,
   error: null,
   notifications: [],
+  scriptReview: null,
+  branches: [],
+  activeBranchId: TRUNK_BRANCH_ID,
+  editions: [],
+  activeEdition: null,
+  jobs: [],
+  prefetchedFaces: [],
+};
+
+/**
+ * Picks the sheet that shows the last generated page so a resumed issue
+ * opens where the reader left off, right next to the Director sheet.
+ */
+const getResumeSheetIndex = (faces: ComicFace[]): number => {
+  const lastPage = Math.max(0, ...faces.map(f => f.pageIndex || 0));
+  return Math.ceil(lastPage / 2);
+};
+
+/**
+ * Snapshot of the issue currently on the desk, in the shape the library stores.
+ */
+const buildIssueSnapshot = (
+  state: Pick<ComicState, 'currentIssue' | 'hero' | 'friend' | 'currentWorld' | 'branches' | 'activeBranchId' | 'editions'>,
+  faces: ComicFace[],
+  config: StoryConfig
+): ComicIssue | null => {
+  if (!state.currentIssue) return null;
+  const branches = state.branches.length > 0 ? stashBranchPath(state.branches, state.activeBranchId, faces) : undefined;
+  return {
+    id: state.currentIssue.id,
+    title: getIssueTitle(config, state.hero),
+    comicFaces: faces,
+    branches,
+    activeBranchId: branches ? state.activeBranchId : undefined,
+    editions: state.editions.length > 0 ? state.editions : undefined,
+    hero: state.hero,
+    friend: state.friend,
+    world: state.currentWorld,
+    config,
+    createdAt: state.currentIssue.createdAt,
+    updatedAt: Date.now(),
+  };
+};
+
+/**
+ * Branch tree with the on-screen pages written back into it. The trunk is
+ * created on first use, so a story that never forks carries no tree at all.
+ */
+const stashActiveBranch = (state: ComicState): StoryBranch[] =>
+  state.branches.length > 0
+    ? stashBranchPath(state.branches, state.activeBranchId, state.comicFaces)
+    : [createTrunk(state.comicFaces)];
+
+/**
+ * Beat used to (re)ink a face. Covers never get a narrative from the writer,
+ * so they reuse the fixed beats launchStory and generateBatch draw them with.
+ */
+const getInkingBeat = (face: ComicFace): Beat => {
+  if (face.narrative) return face.narrative;
+  if (face.type === 'cover') return { scene: 'Cover', choices: [], focus_char: 'hero' };
+  return { scene: 'Thematic teaser image', choices: [], focus_char: 'other' };
+};
+
+/**
+ * Face updates that add a take and make it the active one. The first re-ink
+ * also records the original rendition so it stays selectable; the oldest
+ * takes are dropped beyond MAX_PAGE_TAKES.
+ */
+const withNewTake = (face: ComicFace, take: PageTake): Partial<ComicFace> => {
+  const original: PageTake[] = face.imageUrl ? [{ imageUrl: face.imageUrl, narrative: face.narrative, lettering: face.lettering, createdAt: Date.now() }] : [];
+  const takes = [...(face.takes ?? original), take].slice(-MAX_PAGE_TAKES);
+  return {
+    takes,
+    activeTake: takes.length - 1,
+    imageUrl: take.imageUrl,
+    narrative: take.narrative,
+    lettering: take.lettering,
+    choices: take.narrative?.choices ?? face.choices,
+  };
+};
+
+// Appended to every scene drawn for the lettering layer
+const TEXTLESS_ART = ' NO TEXT IN THE ART: leave out captions, speech bubbles and sound effects; lettering is added separately.';
+
+const withoutText = <T extends { caption?: string; dialogue?: string; scene: string }>(beat: T): T =>
+  ({ ...beat, caption: undefined, dialogue: undefined, scene: `${beat.scene}${TEXTLESS_ART}` });
+
+/**
+ * Draws one face. Story pages with a multi-panel layout ink each panel beat
+ * on its own and composite them into a single page image; everything else is
+ * a single image as before. In overlay lettering mode story art is drawn
+ * without text and comes back with default lettering for the page.
+ */
+const inkPage = async (
+  beat: Beat,
+  type: ComicFace['type'],
+  config: StoryConfig,
+  hero: Persona,
+  friend: Persona | null,
+  world: World | null,
+  signal?: AbortSignal,
+  onPanel?: (panel: number, total: number) => void
+): Promise<{ imageUrl: string; lettering?: LetteringElement[] }> => {
+  const direction = getReadingDirection(config);
+  // Right-to-left books also run their panels from the right
+  const layout = direction === 'rtl' ? mirrorPageLayout(getPageLayout(config)) : getPageLayout(config);
+  // Covers keep their title and teaser text in the art
+  const isLettered = type === 'story' && config.letteringMode !== 'in-art';
+  const lettering = isLettered ? buildLettering(beat, layout, direction) : undefined;
+
+  if (type !== 'story' || layout.frames.length < 2) {
+    const imageUrl = await AiService.generateImage(isLettered ? withoutText(beat) : beat, type, config, hero, friend, world, signal);
+    return { imageUrl, lettering };
+  }
+
+  const panelUrls: string[] = [];
+  for (const [i, panel] of getPanelBeats(beat, layout).entries()) {
+    onPanel?.(i + 1, layout.frames.length);
+    const shape = getFrameShape(layout.frames[i]!);
+    const framed = { ...panel, scene: `${panel.scene} (Composed for a ${shape.toUpperCase()} panel)` };
+    const panelBeat: Beat = { ...(isLettered ? withoutText(framed) : framed), choices: [] };
+    const url = await AiService.generateImage(panelBeat, type, config, hero, friend, world, signal);
+    if (!url) throw new Error(`EMPTY_IMAGE: The provider returned no artwork for panel ${i + 1}`);
+    panelUrls.push(url);
+  }
+
+  try {
+    return { imageUrl: await composePage(layout, panelUrls), lettering };
+  } catch (e) {
+    // e.g. a remote panel without CORS headers; better one panel than a lost page
+    logger.logError('Page Composite Error', e, { area: 'generation', action: 'composePage', metadata: { layout: layout.id } });
+    return { imageUrl: panelUrls[0]!, lettering: lettering && buildLettering(beat, getPageLayout({}), direction) };
+  }
+};
+
+// Share of a run each kind of job accounts for; drawing takes far longer than writing
+const JOB_WEIGHTS: Record<GenerationJobKind, number> = { persona: 1, beat: 1, image: 3, cover: 3, back_cover: 3 };
+
+const getFaceId = (pageIndex: number) => (pageIndex === 0 ? 'cover' : `page-${pageIndex}`);
+
+const isApiKeyError = (message: string) =>
+  message.includes('Requested entity was not found') ||
+  message.includes('API_KEY_INVALID') ||
+  message.includes('403') ||
+  message.includes('PERMISSION_DENIED');
+
+/**
+ * Loading progress for the jobs on the queue: what is being written or drawn
+ * right now, and how far the run has come, panel by panel for multi-panel
+ * pages. Cancelled jobs don't count.
+ */
+const buildJobProgress = (jobs: GenerationJob[], config: StoryConfig, startTime: number): LoadingProgress | null => {
+  // Speculative pages are made quietly in the background
+  const counted = jobs.filter(job => job.status !== 'cancelled' && !job.speculative);
+  if (counted.length === 0) return null;
+
+  const writing = counted.find(job => job.status === 'running' && (job.kind === 'beat' || job.kind === 'persona'));
+  const drawing = counted.filter(job => job.status === 'running' && job.kind !== 'beat' && job.kind !== 'persona');
+  const done = counted.filter(job => job.status === 'done').length;
+  const failed = counted.filter(job => job.status === 'failed').length;
+  const pages = getPageProgress(counted).filter(page => page.pageIndex > 0);
+
+  const total = counted.reduce((sum, job) => sum + JOB_WEIGHTS[job.kind], 0);
+  const progress = counted.reduce((sum, job) => {
+    if (job.status === 'done') return sum + JOB_WEIGHTS[job.kind];
+    if (job.status === 'running' && job.panel && job.panelCount) return sum + JOB_WEIGHTS[job.kind] * (job.panel - 1) / job.panelCount;
+    return sum;
+  }, 0);
+
+  const imageLabel = getImageProvider(config).label;
+  const drawingNote = drawing
+    .map(job => job.kind === 'cover' ? 'the cover' : job.panelCount && job.panelCount > 1 ? `${job.pageIndex} (panel ${job.panel}/${job.panelCount})` : `${job.pageIndex}`)
+    .join(', ');
+
+  const label = writing?.kind === 'persona' ? `Casting Sidekick for Page ${writing.pageIndex}`
+    : writing?.reviewing ? `Reviewing Page ${writing.pageIndex}`
+    : writing ? `Writing Page ${writing.pageIndex}`
+    : drawing.some(job => job.kind === 'cover') ? 'Painting Cover Art'
+    : drawing.length > 0 ? `Inking Page${drawing.length > 1 ? 's' : ''} ${drawing.map(job => job.pageIndex).join(', ')}`
+    : failed > 0 ? `${failed} Job${failed > 1 ? 's' : ''} Failed`
+    : 'Generating Pages';
+  const substep = writing?.kind === 'persona' ? 'Generating character appearance...'
+    : writing?.reviewing ? 'Waiting for your script edits...'
+    : writing ? `Calling ${getTextProvider(config).label} for story generation...${drawingNote ? ` Inking ${drawingNote} with ${imageLabel}` : ''}`
+    : drawing.length > 0 ? `Drawing ${drawingNote} with ${imageLabel}...`
+    : failed > 0 ? 'Retry or dismiss the failed jobs to carry on.'
+    : done < counted.length ? 'Preparing story context...'
+    : pages.length > 0 ? `✓ ${pages.length} page${pages.length > 1 ? 's' : ''} complete!` : '✓ Epic cover art complete!';
+
+  return {
+    current: done,
+    total: counted.length,
+    label,
+    substep,
+    percentage: Math.round((progress / total) * 100),
+    startTime,
+    pages,
+  };
 };
 
 function reducer(state: ComicState, action: ComicAction): ComicState {
@@ -90,7 +329,66 @@ function reducer(state: ComicState, action: ComicAction): ComicState {
     case 'UPDATE_CONFIG':
       return { ...state, config: { ...state.config, ...action.payload } };
     case 'START_ADVENTURE':
-      return { ...state, status: 'generating', error: null };
+      return {
+        ...state,
+        status: 'generating',
+        error: null,
+        currentIssue: { id: action.payload.issueId, createdAt: Date.now() },
+        branches: [],
+        activeBranchId: TRUNK_BRANCH_ID,
+        editions: [],
+        activeEdition: null,
+        prefetchedFaces: [],
+      };
+    case 'LOAD_ISSUE': {
+      const issue = action.payload;
+      return {
+        ...state,
+        status: 'reading',
+        comicFaces: [...issue.comicFaces].sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0)),
+        currentSheetIndex: getResumeSheetIndex(issue.comicFaces),
+        hero: issue.hero,
+        friend: issue.friend,
+        currentWorld: issue.world,
+        // Optional fields are carried explicitly so an older issue doesn't inherit the current setup
+        config: {
+          ...state.config,
+          ...issue.config,
+          continuity: issue.config.continuity,
+          storyPages: issue.config.storyPages,
+          decisionPages: issue.config.decisionPages,
+          pageLayout: issue.config.pageLayout,
+          // Issues from before the lettering layer have their text drawn into the art
+          letteringMode: issue.config.letteringMode ?? 'in-art',
+          readingDirection: issue.config.readingDirection,
+        },
+        currentIssue: { id: issue.id, createdAt: issue.createdAt },
+        branches: issue.branches ?? [],
+        activeBranchId: issue.activeBranchId ?? TRUNK_BRANCH_ID,
+        editions: issue.editions ?? [],
+        activeEdition: null,
+        prefetchedFaces: [],
+        loadingProgress: null,
+        error: null,
+      };
+    }
+    case 'PREPARE_NEXT_ISSUE':
+      // Same cast and world, fresh pages: back to setup so the next opening can be tweaked
+      return {
+        ...state,
+        status: 'setup',
+        comicFaces: [],
+        currentSheetIndex: 0,
+        config: { ...state.config, continuity: action.payload },
+        currentIssue: null,
+        branches: [],
+        activeBranchId: TRUNK_BRANCH_ID,
+        editions: [],
+        activeEdition: null,
+        prefetchedFaces: [],
+        loadingProgress: null,
+        error: null,
+      };
     case 'TRANSITION_COMPLETE':
       return { ...state, status: 'reading', loadingProgress: null };
     case 'CANCEL_GENERATION': {
@@ -111,17 +409,85 @@ function reducer(state: ComicState, action: ComicAction): ComicState {
         comicFaces: [...state.comicFaces, ...uniqueNew].sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0)) 
       };
     }
-    case 'UPDATE_FACE':
+    case 'UPDATE_FACE': {
+      const { updates } = action.payload;
+      // A page whose text changed reads as the original until it is translated again
+      const stalePage = 'narrative' in updates || 'choices' in updates || 'lettering' in updates
+        ? state.comicFaces.find(f => f.id === action.payload.id)?.pageIndex
+        : undefined;
       return {
         ...state,
         comicFaces: state.comicFaces.map(f => 
-          f.id === action.payload.id ? { ...f, ...action.payload.updates } : f
-        )
+          f.id === action.payload.id ? { ...f, ...updates } : f
+        ),
+        prefetchedFaces: state.prefetchedFaces.map(f =>
+          f.id === action.payload.id ? { ...f, ...updates } : f
+        ),
+        editions: stalePage === undefined ? state.editions : state.editions.map(edition =>
+          edition.branchId === state.activeBranchId
+            ? { ...edition, pages: edition.pages.filter(page => page.pageIndex !== stalePage) }
+            : edition
+        ),
+      };
+    }
+    case 'ADD_PREFETCHED_FACES':
+      return { ...state, prefetchedFaces: [...state.prefetchedFaces, ...action.payload] };
+    case 'ADOPT_PREFETCHED':
+      if (state.prefetchedFaces.length === 0) return state;
+      return {
+        ...state,
+        comicFaces: [...state.comicFaces, ...state.prefetchedFaces].sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0)),
+        prefetchedFaces: [],
       };
+    case 'DISCARD_PREFETCHED':
+      return state.prefetchedFaces.length === 0 ? state : { ...state, prefetchedFaces: [] };
     case 'SET_SHEET_INDEX':
       return { ...state, currentSheetIndex: action.payload };
     case 'SET_LOADING_PROGRESS':
       return { ...state, loadingProgress: action.payload };
+    case 'SET_JOBS':
+      return { ...state, jobs: action.payload };
+    case 'SET_SCRIPT_REVIEW':
+      return { ...state, scriptReview: action.payload };
+    case 'CREATE_BRANCH': {
+      const branches = [...stashActiveBranch(state), action.payload];
+      return {
+        ...state,
+        branches,
+        activeBranchId: action.payload.id,
+        comicFaces: composeBranchPath(branches, action.payload.id),
+        prefetchedFaces: [],
+      };
+    }
+    case 'SWITCH_BRANCH': {
+      const branches = stashActiveBranch(state);
+      if (!branches.some(b => b.id === action.payload)) return state;
+      return {
+        ...state,
+        branches,
+        activeBranchId: action.payload,
+        comicFaces: composeBranchPath(branches, action.payload),
+        prefetchedFaces: [],
+      };
+    }
+    case 'ADD_EDITION': {
+      // A fresh translation replaces the previous one for that language and branch
+      const editions = state.editions.filter(e => e.language !== action.payload.language || e.branchId !== action.payload.branchId);
+      return { ...state, editions: [...editions, action.payload] };
+    }
+    case 'SET_ACTIVE_EDITION':
+      return { ...state, activeEdition: action.payload };
+    case 'UPDATE_EDITION_PAGE': {
+      const { language, pageIndex, updates } = action.payload;
+      return {
+        ...state,
+        editions: state.editions.map(edition =>
+          edition.language === language && edition.branchId === state.activeBranchId
+            ? { ...edition, pages: edition.pages.map(page => (page.pageIndex === pageIndex ? { ...page, ...updates } : page)) }
+            : edition
+        ),
+      };
+    }
     case 'SET_ERROR':
       return { ...state, error: action.payload, loadingProgress: null };
     case 'ADD_NOTIFICATION': {
@@ -145,9 +511,8 @@ function reducer(state: ComicState, action: ComicAction): ComicState {
 
 export const useComicEngine = () => {
   const [state, dispatch] = useReducer(reducer, initialState);
-
-  // Ref used only to prevent duplicate batch triggers
-  const generatingPagesRef = useRef<Set<number>>(new Set());
+  // "Parallel pages" in Settings: how many pages may be inked at once
+  const { concurrentGenerations, speculativePrefetch, prefetchDepth, prefetchBudget } = useSettings().settings;
 
   // Ref to track active timeouts for cleanup
   const activeTimeoutsRef = useRef<Set<NodeJS.Timeout>>(new Set());
@@ -155,9 +520,43 @@ export const useComicEngine = () => {
   // Ref to track active AbortControllers for AI operations
   const activeControllersRef = useRef<Map<string, AbortController>>(new Map());
 
+  // Resolves the beat generateBatch is waiting on while a script is under review
+  const scriptReviewRef = useRef<((beat: Beat) => void) | null>(null);
+
   // Ref to track if component is mounted (for cleanup)
   const isMountedRef = useRef<boolean>(true);
 
+  // Latest state for jobs, which run long after the render that queued them
+  const stateRef = useRef(state);
+  // Sidekick cast by a persona job, until SET_FRIEND has rendered
+  const castFriendRef = useRef<Persona | null>(null);
+  // Pages each branch's beats are written from, as they stood when the jobs were queued
+  const jobHistoryRef = useRef<Map<string, ComicFace[]>>(new Map());
+  const jobRunStartRef = useRef<number | null>(null);
+  // Bumped whenever the queue is cleared, so a slow restore can tell it is out of date
+  const jobGenerationRef = useRef(0);
+  // Pages in the current prefetch, and prefetched pages thrown away so far this issue
+  const prefetchedPagesRef = useRef(0);
+  const prefetchWastedRef = useRef(0);
+  const jobProgressTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Job writes are chained so an older list never lands after a newer one
+  const jobSaveRef = useRef<Promise<void>>(Promise.resolve());
+  const runJobRef = useRef<(job: GenerationJob, signal: AbortSignal) => Promise<Partial<GenerationJob> | void>>(() => Promise.resolve());
+  const jobsChangedRef = useRef<(jobs: GenerationJob[]) => void>(() => {});
+  const jobSettledRef = useRef<(job: GenerationJob) => void>(() => {});
+
+  const [jobQueue] = useState(() => new JobQueue({
+    run: (job, signal) => runJobRef.current(job, signal),
+    onChange: jobs => jobsChangedRef.current(jobs),
+    onPersist: (issueId, pending) => {
+      jobSaveRef.current = jobSaveRef.current
+        // Speculative pages aren't worth resuming after a reload
+        .then(() => StorageService.saveJobs(issueId, pending.filter(job => !job.speculative)))
+        .catch(error => logger.logError('Job Save Error', error, { area: 'storage', action: 'saveJobs', metadata: { issueId } }));
+    },
+    onSettled: job => jobSettledRef.current(job),
+  }));
+
   // Cleanup function for timeouts
   const clearAllTimeouts = useCallback(() => {
     activeTimeoutsRef.current.forEach(timeout => clearTimeout(timeout));
@@ -179,8 +578,17 @@ export const useComicEngine = () => {
       isMountedRef.current = false;
       abortAllOperations();
       clearAllTimeouts();
+      jobQueue.clear();
     };
-  }, [abortAllOperations, clearAllTimeouts]);
+  }, [abortAllOperations, clearAllTimeouts, jobQueue]);
+
+  React.useEffect(() => {
+    stateRef.current = state;
+  });
+
+  React.useEffect(() => {
+    jobQueue.setImageConcurrency(concurrentGenerations);
+  }, [jobQueue, concurrentGenerations]);
 
   // Auto-load worlds on mount for offline capabilities
   React.useEffect(() => {
@@ -197,6 +605,38 @@ export const useComicEngine = () => {
     loadInitialWorlds();
   }, []);
 
+  // Persist finished pages to the issue library so a reload never loses the book
+  React.useEffect(() => {
+    if (!state.currentIssue || state.status !== 'reading' || !state.hero) return undefined;
+
+    // Only finished pages are stored; anything still inking is picked up by the next save
+    const finishedFaces = state.comicFaces.filter(face => face.imageUrl && !face.isLoading);
+    if (finishedFaces.length === 0) return undefined;
+
+    const issue = buildIssueSnapshot(
+      {
+        currentIssue: state.currentIssue,
+        hero: state.hero,
+        friend: state.friend,
+        currentWorld: state.currentWorld,
+        branches: state.branches,
+        activeBranchId: state.activeBranchId,
+        editions: state.editions,
+      },
+      finishedFaces,
+      state.config
+    );
+    if (!issue) return undefined;
+
+    const timer = setTimeout(() => {
+      StorageService.saveIssue(issue).catch(error => {
+        logger.logError('Issue Autosave Error', error, { area: 'storage', action: 'saveIssue', metadata: { issueId: issue.id } });
+      });
+    }, ISSUE_AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [state.comicFaces, state.currentIssue, state.status, state.hero, state.friend, state.currentWorld, state.config, state.branches, state.activeBranchId, state.editions]);
+
   // Actions
   const setHero = useCallback((p: Persona | null) => dispatch({ type: 'SET_HERO', payload: p }), []);
   const updateHero = useCallback((updates: Partial<Persona>) => dispatch({ type: 'UPDATE_HERO', payload: updates }), []);
@@ -221,16 +661,282 @@ export const useComicEngine = () => {
   }, []);
 
   const updateConfig = useCallback((updates: Partial<StoryConfig>) => dispatch({ type: 'UPDATE_CONFIG', payload: updates }), []);
+
+  /**
+   * Hands a freshly written beat to the script editor and resolves with the
+   * reviewed version. Takes the beat job's signal so cancelling the job also
+   * rejects the wait.
+   */
+  const waitForScriptReview = useCallback((review: ScriptReview, signal: AbortSignal) => new Promise<Beat>((resolve, reject) => {
+    const settle = () => {
+      scriptReviewRef.current = null;
+      if (isMountedRef.current) dispatch({ type: 'SET_SCRIPT_REVIEW', payload: null });
+    };
+
+    signal.addEventListener('abort', () => {
+      settle();
+      reject(signal.reason instanceof Error ? signal.reason : new Error('Script review cancelled'));
+    }, { once: true });
+
+    scriptReviewRef.current = (beat: Beat) => {
+      settle();
+      resolve(beat);
+    };
+    dispatch({ type: 'SET_SCRIPT_REVIEW', payload: review });
+  }), []);
+
+  /**
+   * Accepts the beat from the script editor. It is only marked as edited when
+   * something actually changed, so untouched pages keep using the beat cache.
+   */
+  const submitScript = useCallback((beat: Beat) => {
+    const original = state.scriptReview?.beat;
+    if (!scriptReviewRef.current || !original) return;
+
+    const changed = (['caption', 'dialogue', 'scene', 'focus_char'] as const).some(key => (beat[key] || '') !== (original[key] || ''))
+      || beat.choices.join('\n') !== original.choices.join('\n')
+      || JSON.stringify(beat.panels ?? []) !== JSON.stringify(original.panels ?? []);
+    // A hand-written script replaces the stand-in, so it no longer counts as a fallback
+    scriptReviewRef.current(changed ? { ...beat, edited: true, fallback: undefined } : original);
+  }, [state.scriptReview]);
   
-  const generateBatch = useCallback(async (
+  /**
+   * Shows the prefetched pages, finished or not, as the next pages of the
+   * story; their jobs carry on as ordinary ones.
+   */
+  const adoptPrefetch = useCallback(() => {
+    jobQueue.list().filter(job => job.speculative).forEach(job => jobQueue.adopt(job.id));
+    prefetchedPagesRef.current = 0;
+    dispatch({ type: 'ADOPT_PREFETCHED' });
+  }, [jobQueue]);
+
+  // Drops the prefetched pages, e.g. when the director steers somewhere else; they count against the budget
+  const discardPrefetch = useCallback(() => {
+    const jobs = jobQueue.list().filter(job => job.speculative);
+    jobs.forEach(job => jobQueue.cancel(job.id));
+    jobs.forEach(job => jobQueue.dismiss(job.id));
+    prefetchWastedRef.current += prefetchedPagesRef.current;
+    prefetchedPagesRef.current = 0;
+    dispatch({ type: 'DISCARD_PREFETCHED' });
+  }, [jobQueue]);
+
+  /**
+   * Pages a beat job writes from: the branch as it stood when the job was
+   * queued, with the beats written since filled in, since the state may not
+   * show them yet.
+   */
+  const getJobHistory = (job: GenerationJob): ComicFace[] => {
+    const base = jobHistoryRef.current.get(job.branchId) ?? stateRef.current.comicFaces;
+    const written = new Map(jobQueue.list()
+      .filter(other => other.branchId === job.branchId && !other.take && other.beat && (other.kind === 'image' || other.status === 'done'))
+      .map(other => [other.pageIndex, other.beat!]));
+    return base
+      .filter(face => (face.pageIndex || 0) < job.pageIndex)
+      .map(face => {
+        const beat = written.get(face.pageIndex || 0);
+        return beat ? { ...face, narrative: beat, choices: beat.choices } : face;
+      });
+  };
+
+  /**
+   * Does the work of one job. The cast, world and config are read from the
+   * latest state, so jobs restored after a reload run like freshly queued
+   * ones. A beat job queues the art for its page (and the sidekick's casting
+   * first, if the beat needs one) before it finishes.
+   */
+  const runJob = async (job: GenerationJob, signal: AbortSignal): Promise<Partial<GenerationJob> | void> => {
+    const { hero, config, currentWorld, comicFaces } = stateRef.current;
+    if (!hero) throw new Error('There is no hero to draw this page with');
+    const friend = stateRef.current.friend ?? castFriendRef.current;
+
+    if (job.kind === 'persona') {
+      try {
+        const desc = config.genre === 'Custom' ? "A fitting sidekick for this story" : `Sidekick for ${config.genre} story.`;
+        castFriendRef.current = await AiService.generatePersona(desc, config.genre, config, signal);
+        setFriend(castFriendRef.current);
+      } catch (e) {
+        const errStr = String(e);
+        if (signal.aborted || errStr.includes('403') || errStr.includes('PERMISSION_DENIED')) throw e;
+        // The page is drawn without a sidekick instead
+      }
+      return;
+    }
+
+    if (job.kind === 'beat') {
+      // Prefetched beats may be thrown away, so they stay out of the beat cache
+      const cacheScope = job.speculative ? undefined : job.branchId;
+      let beat = await AiService.generateBeat(getJobHistory(job), job.pageIndex, !!job.isDecisionPage, config, hero, friend, currentWorld, job.guidance, signal,
+        preview => jobQueue.update(job.id, { preview }), cacheScope);
+      if (!job.take && config.reviewScript) {
+        jobQueue.update(job.id, { reviewing: true });
+        beat = await waitForScriptReview({ pageIndex: job.pageIndex, beat, isDecisionPage: !!job.isDecisionPage }, signal);
+      }
+      // A job dropped meanwhile must not touch a page queued again in its place
+      signal.throwIfAborted();
+
+      // Read afresh, since the reader may have caught up with the page meanwhile
+      const speculative = !!jobQueue.get(job.id)?.speculative;
+      if (beat.fallback && !speculative) {
+        dispatch({ type: 'ADD_NOTIFICATION', payload: {
+          id: `notif-${Date.now()}-${Math.random()}`,
+          type: 'warning',
+          message: `The script for page ${job.pageIndex} came back unusable even after a repair, so a stand-in was written. Rewrite the page to try again.`,
+          timestamp: Date.now(),
+        }});
+      }
+      let persona: GenerationJob | undefined;
+      if (beat.focus_char === 'friend' && !friend) {
+        // No mid-story casting on a rewrite or a page that may be thrown away; without a sidekick the panel stays on the scene
+        if (job.take || speculative) beat = { ...beat, focus_char: 'other' };
+        else persona = jobQueue.add({ kind: 'persona', issueId: job.issueId, branchId: job.branchId, pageIndex: job.pageIndex });
+      }
+      if (!job.take) {
+        dispatch({ type: 'UPDATE_FACE', payload: { id: getFaceId(job.pageIndex), updates: { narrative: beat, choices: beat.choices, isDecisionPage: !!job.isDecisionPage } } });
+      }
+
+      jobQueue.add({
+        kind: 'image',
+        issueId: job.issueId,
+        branchId: job.branchId,
+        pageIndex: job.pageIndex,
+        priority: job.take ? job.priority : undefined,
+        dependsOn: persona ? [persona.id] : [],
+        isDecisionPage: job.isDecisionPage,
+        beat,
+        take: job.take,
+        speculative,
+      });
+      return { beat };
+    }
+
+    // Cover, back cover and story art are all drawn the same way
+    const face: ComicFace = comicFaces.find(f => f.pageIndex === job.pageIndex)
+      ?? { id: getFaceId(job.pageIndex), type: job.kind === 'image' ? 'story' : job.kind, choices: [], isLoading: true, pageIndex: job.pageIndex };
+    let beat = job.beat ?? getInkingBeat(face);
+    // Casting failed, so the page goes without the sidekick
+    if (beat.focus_char === 'friend' && !friend) beat = { ...beat, focus_char: 'other' };
+
+    const inked = await inkPage(beat, face.type, config, hero, friend, currentWorld, signal, (panel, panelCount) => {
+      jobQueue.update(job.id, { panel, panelCount });
+    });
+    if (!inked.imageUrl) throw new Error('EMPTY_IMAGE: The provider returned no artwork');
+    signal.throwIfAborted();
+
+    // A take may have been picked while this one was drawn
+    const latest = stateRef.current.comicFaces.find(f => f.pageIndex === job.pageIndex) ?? face;
+    let updates: Partial<ComicFace>;
+    if (job.take === 'reink') {
+      // Same script, so hand-placed lettering carries over to the new art
+      const lettering = inked.lettering && (latest.lettering ?? inked.lettering);
+      updates = withNewTake(latest, { imageUrl: inked.imageUrl, narrative: latest.narrative, lettering, createdAt: Date.now() });
+    } else if (job.take === 'rewrite') {
+      updates = { ...withNewTake(latest, { imageUrl: inked.imageUrl, narrative: beat, lettering: inked.lettering, createdAt: Date.now() }), isDecisionPage: !!job.isDecisionPage };
+    } else {
+      updates = { imageUrl: inked.imageUrl, lettering: inked.lettering, ...(job.beat && { narrative: beat }) };
+    }
+    dispatch({ type: 'UPDATE_FACE', payload: { id: latest.id, updates: { ...updates, isLoading: false } } });
+  };
+
+  const clearJobProgressTimeout = useCallback(() => {
+    if (!jobProgressTimeoutRef.current) return;
+    clearTimeout(jobProgressTimeoutRef.current);
+    activeTimeoutsRef.current.delete(jobProgressTimeoutRef.current);
+    jobProgressTimeoutRef.current = null;
+  }, []);
+
+  // Mirrors the queue into state and keeps the loading indicator in step with it
+  const onJobsChanged = (jobs: GenerationJob[]) => {
+    if (!isMountedRef.current) return;
+    dispatch({ type: 'SET_JOBS', payload: jobs });
+    clearJobProgressTimeout();
+
+    const startTime = jobRunStartRef.current ?? Date.now();
+    const progress = buildJobProgress(jobs, stateRef.current.config, startTime);
+    dispatch({ type: 'SET_LOADING_PROGRESS', payload: progress });
+    if (progress && jobQueue.isBusy()) {
+      jobRunStartRef.current = startTime;
+      return;
+    }
+
+    // The finished run stays up for a moment before the indicator goes
+    jobRunStartRef.current = null;
+    if (!progress) return;
+    const timeout = setTimeout(() => {
+      if (isMountedRef.current) dispatch({ type: 'SET_LOADING_PROGRESS', payload: null });
+      activeTimeoutsRef.current.delete(timeout);
+      jobProgressTimeoutRef.current = null;
+    }, 1000);
+    jobProgressTimeoutRef.current = timeout;
+    activeTimeoutsRef.current.add(timeout);
+  };
+
+  /**
+   * Pages of a failed job, and of the jobs waiting on it, stop loading until
+   * it is retried. A rejected key stops the whole queue.
+   */
+  const onJobSettled = (job: GenerationJob) => {
+    if (!isMountedRef.current) return;
+    if (job.status === 'cancelled') {
+      if (!jobQueue.isBusy(job.pageIndex)) dispatch({ type: 'UPDATE_FACE', payload: { id: getFaceId(job.pageIndex), updates: { isLoading: false } } });
+      return;
+    }
+    if (job.status !== 'failed') return;
+
+    const message = job.error ?? 'Unknown error';
+    if (job.speculative) {
+      // Nobody asked for these pages yet; the real batch reports any lasting problem
+      console.warn('[Comic Engine] Prefetch failed, dropping the prefetched pages', message);
+      discardPrefetch();
+      return;
+    }
+    logger.logError('Generation Job Error', new Error(message), {
+      area: 'generation',
+      action: job.kind,
+      metadata: { jobId: job.id, pageIndex: job.pageIndex, attempts: job.attempts, take: job.take },
+    });
+
+    const stalled = new Set([job, ...jobQueue.dependentsOf(job.id)].map(other => other.pageIndex));
+    stalled.forEach(pageIndex => dispatch({ type: 'UPDATE_FACE', payload: { id: getFaceId(pageIndex), updates: { isLoading: false } } }));
+
+    if (isApiKeyError(message)) {
+      dispatch({ type: 'SET_ERROR', payload: "API_KEY_ERROR" });
+      jobQueue.cancelAll();
+    }
+    // launchStory reports its own cover
+    if (job.kind === 'cover') return;
+
+    const verb = job.take === 'reink' ? 're-ink' : job.take === 'rewrite' ? 'rewrite' : job.kind === 'beat' || job.kind === 'persona' ? 'write' : 'ink';
+    dispatch({ type: 'ADD_NOTIFICATION', payload: {
+      id: `notif-${Date.now()}-${Math.random()}`,
+      type: 'error',
+      message: job.take
+        ? `Could not ${verb} page ${job.pageIndex}. The previous take is unchanged.`
+        : `Could not ${verb} page ${job.pageIndex}. Retry it from the progress panel.`,
+      timestamp: Date.now(),
+    }});
+  };
+
+  React.useEffect(() => {
+    runJobRef.current = runJob;
+    jobsChangedRef.current = onJobsChanged;
+    jobSettledRef.current = onJobSettled;
+  });
+
+  /**
+   * Queues the next pages of the story on the given branch. The art is drawn
+   * up to `concurrentGenerations` pages at a time ("Parallel pages" in
+   * Settings) while the beats are written one after another. Speculative
+   * pages are kept out of the book until the reader adopts them.
+   */
+  const generateBatch = useCallback((
       startPage: number,
       count: number,
       currentFaces: ComicFace[],
-      currentHero: Persona,
-      currentFriend: Persona | null,
       currentConfig: StoryConfig,
-      currentWorld: World | null,
-      userGuidance?: string
+      issueId: string,
+      branchId: string,
+      userGuidance?: string,
+      speculative = false
   ) => {
     /**
      * RACE CONDITION MITIGATION FOR CONCURRENT BATCH HISTORY DIVERGENCE
@@ -238,28 +944,25 @@ export const useComicEngine = () => {
      * This implementation prevents concurrent batch operations from causing
      * history divergence through the following mechanisms:
      *
-     * 1. Page Reservation System: Uses generatingPagesRef Set for atomic
-     *    check-and-reserve to prevent duplicate page generation
-     * 2. Sequential Processing: Pages within a batch are processed sequentially
-     *    to maintain narrative consistency
-     * 3. Batch History: Includes both generated and in-progress pages to ensure
-     *    AI has full context
-     * 4. AbortController Management: Each AI operation has its own controller
-     *    for graceful cancellation with timeout handling
-     *
-     * This ensures that even if multiple batches are triggered, each page is
-     * only generated once and the narrative history remains consistent.
+     * 1. Page Reservation: pages that already have a job on the queue are
+     *    skipped, so each page is only generated once
+     * 2. Sequential Writing: every beat job depends on the beat job before
+     *    it and the text lane runs one job at a time; only inking runs in
+     *    parallel
+     * 3. Batch History: beats are written from a snapshot of the branch taken
+     *    here, plus the beats written since, so the AI has full context even
+     *    before the state catches up
+     * 4. Cancellation: the queue owns an AbortController per running job
      */
 
-    // Atomically check and reserve pages to prevent race conditions
+    const layout = getIssueLayout(currentConfig);
+
     const pagesToGen: number[] = [];
     for (let i = 0; i < count; i++) {
         const p = startPage + i;
-        if (p <= TOTAL_PAGES && !generatingPagesRef.current.has(p)) {
-            // Immediately add to set to reserve atomically
-            generatingPagesRef.current.add(p);
-            pagesToGen.push(p);
-        }
+        if (p <= layout.totalPages && !jobQueue.isBusy(p)) pagesToGen.push(p);
+        // Pages past a decision page wait for the reader's choice
+        if (layout.decisionPages.includes(p)) break;
     }
 
     if (pagesToGen.length === 0) return;
@@ -267,277 +970,112 @@ export const useComicEngine = () => {
     // Optimistically add placeholders
     const newFaces: ComicFace[] = pagesToGen.map(pageNum => ({
       id: `page-${pageNum}`,
-      type: pageNum === BACK_COVER_PAGE ? 'back_cover' : 'story',
+      type: pageNum === layout.backCoverPage ? 'back_cover' : 'story',
       choices: [],
       isLoading: true,
       pageIndex: pageNum,
     }));
-    
-    dispatch({ type: 'ADD_FACES', payload: newFaces });
-
-    let batchHistory = [...currentFaces, ...newFaces];
-    let completed = 0;
-    const total = pagesToGen.length;
-    const startTime = Date.now();
-
-    dispatch({
-        type: 'SET_LOADING_PROGRESS',
-        payload: {
-            current: 0,
-            total,
-            label: `Generating Pages ${startPage}-${startPage + count - 1}`,
-            substep: 'Preparing story context...',
-            percentage: 0,
-            startTime
-        }
-    });
-
-    try {
-      // Process sequentially
-      for (const pageNum of pagesToGen) {
-        const currentStep = completed + 1;
-        const percentage = Math.round((currentStep / total) * 100);
-
-        dispatch({
-            type: 'SET_LOADING_PROGRESS',
-            payload: {
-                current: currentStep,
-                total,
-                label: `Writing Page ${pageNum}`,
-                substep: `Calling Gemini API (${currentConfig.modelPresetModel || 'gemini-3-flash-preview'}) for story generation...`,
-                percentage,
-                startTime
-            }
-        });
-
-        const faceId = `page-${pageNum}`;
-        const type = pageNum === BACK_COVER_PAGE ? 'back_cover' : 'story';
-        const isDecision = DECISION_PAGES.includes(pageNum);
-
-        // Create AbortController for this page's operations
-        const pageController = new AbortController();
-        const controllerKey = `page-${pageNum}-beat`;
-        activeControllersRef.current.set(controllerKey, pageController);
-
-        let beat;
-        if (type === 'back_cover') {
-           beat = { scene: "Thematic teaser image", choices: [], focus_char: 'other' as const };
-        } else {
-           // Apply guidance only to the first page of the batch to set direction
-           const batchGuidance = (pageNum === startPage) ? userGuidance : undefined;
-           beat = await AiService.generateBeat(
-             batchHistory,
-             pageNum,
-             isDecision,
-             currentConfig,
-             currentHero,
-             currentFriend,
-             currentWorld,
-             batchGuidance,
-             pageController.signal
-           );
-        }
 
-        // Clean up beat generation controller
-        activeControllersRef.current.delete(controllerKey);
-        
-        // Update progress after beat generation
-        dispatch({
-            type: 'SET_LOADING_PROGRESS',
-            payload: {
-                current: currentStep,
-                total,
-                label: `Writing Page ${pageNum}`,
-                substep: `✓ Story beat generated - ${beat.focus_char === 'hero' ? 'Hero' : beat.focus_char === 'friend' ? 'Sidekick' : 'Scene'} focused`,
-                percentage,
-                startTime
-            }
-        });
-        
-        let activeFriend = currentFriend;
-        if (beat.focus_char === 'friend' && !activeFriend && type === 'story') {
-           try {
-              dispatch({
-                 type: 'SET_LOADING_PROGRESS',
-                 payload: {
-                    current: currentStep,
-                    total,
-                    label: `Casting Sidekick for Page ${pageNum}`,
-                    substep: 'Generating character appearance...',
-                    percentage,
-                    startTime
-                 }
-              });
-
-              // Create AbortController for persona generation
-              const personaController = new AbortController();
-              const personaKey = `page-${pageNum}-persona`;
-              activeControllersRef.current.set(personaKey, personaController);
-
-              const desc = currentConfig.genre === 'Custom' ? "A fitting sidekick for this story" : `Sidekick for ${currentConfig.genre} story.`;
-              activeFriend = await AiService.generatePersona(desc, currentConfig.genre, personaController.signal);
-              setFriend(activeFriend);
-
-              // Clean up persona controller
-              activeControllersRef.current.delete(personaKey);
-           } catch (e) {
-              const errStr = String(e);
-              if (errStr.includes('403') || errStr.includes('PERMISSION_DENIED')) throw e;
-              beat.focus_char = 'other';
-           }
-        }
-
-        batchHistory = batchHistory.map(f => f.id === faceId ? { ...f, narrative: beat, choices: beat.choices, isDecisionPage: isDecision } : f);
-        dispatch({ type: 'UPDATE_FACE', payload: { id: faceId, updates: { narrative: beat, choices: beat.choices, isDecisionPage: isDecision } } });
-
-        // Generate Image
-        dispatch({
-            type: 'SET_LOADING_PROGRESS',
-            payload: {
-                current: currentStep,
-                total,
-                label: `Inking Panel ${pageNum}`,
-                substep: `Calling Gemini API (gemini-3-pro-image-preview) for artwork generation...`,
-                percentage,
-                startTime
-            }
-        });
-
-        // Create AbortController for image generation
-        const imageController = new AbortController();
-        const imageKey = `page-${pageNum}-image`;
-        activeControllersRef.current.set(imageKey, imageController);
-
-        const url = await AiService.generateImage(beat, type, currentConfig, currentHero, activeFriend, currentWorld, imageController.signal);
-
-        // Clean up image controller
-        activeControllersRef.current.delete(imageKey);
-        
-        // Update progress after image generation
-        dispatch({
-            type: 'SET_LOADING_PROGRESS',
-            payload: {
-                current: currentStep,
-                total,
-                label: `Inking Panel ${pageNum}`,
-                substep: `✓ Artwork rendered - Panel ${pageNum} complete!`,
-                percentage,
-                startTime
-            }
-        });
-
-        batchHistory = batchHistory.map(f => f.id === faceId ? { ...f, imageUrl: url, isLoading: false } : f);
-        dispatch({ type: 'UPDATE_FACE', payload: { id: faceId, updates: { imageUrl: url, isLoading: false } } });
-
-        generatingPagesRef.current.delete(pageNum);
-        completed++;
+    if (speculative) {
+      prefetchedPagesRef.current += pagesToGen.length;
+      dispatch({ type: 'ADD_PREFETCHED_FACES', payload: newFaces });
+    } else {
+      dispatch({ type: 'ADD_FACES', payload: newFaces });
+    }
+    jobHistoryRef.current.set(branchId, [...currentFaces, ...newFaces]);
+
+    // Chained on to a beat still waiting from an earlier batch
+    let previous = jobQueue.list()
+      .filter(job => job.kind === 'beat' && job.branchId === branchId && !job.take && (job.status === 'queued' || job.status === 'running'))
+      .sort((a, b) => b.pageIndex - a.pageIndex)[0];
+    pagesToGen.forEach(pageNum => {
+      if (pageNum === layout.backCoverPage) {
+        jobQueue.add({ kind: 'back_cover', issueId, branchId, pageIndex: pageNum, speculative });
+        return;
       }
-    } catch (e) {
-      const msg = String(e);
-
-      logger.logError('Batch Generation Error', e, {
-        area: 'generation',
-        action: 'generateBatch',
-        metadata: { startPage, count, message: msg },
-      });
-
-      // Fail any pages that were in-flight so panels don't stay in a loading limbo
-      pagesToGen.forEach(pageNum => {
-        const faceId = `page-${pageNum}`;
-        dispatch({ type: 'UPDATE_FACE', payload: { id: faceId, updates: { isLoading: false } } });
+      previous = jobQueue.add({
+        kind: 'beat',
+        issueId,
+        branchId,
+        pageIndex: pageNum,
+        dependsOn: previous ? [previous.id] : [],
+        isDecisionPage: layout.decisionPages.includes(pageNum),
+        // Apply guidance only to the first page of the batch to set direction
+        guidance: pageNum === startPage ? userGuidance : undefined,
+        speculative,
       });
-
-      if (
-          msg.includes('Requested entity was not found') ||
-          msg.includes('API_KEY_INVALID') ||
-          msg.includes('403') ||
-          msg.includes('PERMISSION_DENIED')
-      ) {
-         dispatch({ type: 'SET_ERROR', payload: "API_KEY_ERROR" });
-      }
-
-      dispatch({ type: 'ADD_NOTIFICATION', payload: {
-        id: `notif-${Date.now()}-${Math.random()}`,
-        type: 'error',
-        message: 'Something went wrong while generating pages. Please try again.',
-        timestamp: Date.now(),
-      }});
-    } finally {
-      pagesToGen.forEach(p => generatingPagesRef.current.delete(p));
-
-      // Use tracked timeout with cleanup
-      const cleanupTimeout = setTimeout(() => {
-        if (isMountedRef.current) {
-          dispatch({ type: 'SET_LOADING_PROGRESS', payload: null });
-        }
-        activeTimeoutsRef.current.delete(cleanupTimeout);
-      }, 1000);
-
-      activeTimeoutsRef.current.add(cleanupTimeout);
-    }
-  }, [setFriend]);
+    });
+  }, [jobQueue]);
+
+  /**
+   * Speculative prefetch (opt-in): once the queue is idle and the reader is
+   * waiting at the director's sheet, writes and inks the next `prefetchDepth`
+   * pages as if the director gave no guidance. Not while a choice is pending,
+   * since the choice is the guidance, nor with script review on. Stops for the
+   * issue once `prefetchBudget` prefetched pages have been thrown away.
+   */
+  React.useEffect(() => {
+    if (!speculativePrefetch || prefetchDepth < 1 || state.status !== 'reading' || !state.currentIssue || !state.hero) return undefined;
+    if (state.config.reviewScript || state.prefetchedFaces.length > 0 || state.jobs.some(job => job.status !== 'done' && job.status !== 'cancelled')) return undefined;
+
+    const layout = getIssueLayout(state.config);
+    const lastPage = Math.max(0, ...state.comicFaces.map(face => face.pageIndex || 0));
+    const last = state.comicFaces.find(face => face.pageIndex === lastPage);
+    if (lastPage === 0 || lastPage >= layout.totalPages || last?.isLoading) return undefined;
+    if (last?.isDecisionPage && !last.resolvedChoice) return undefined;
+
+    const issueId = state.currentIssue.id;
+    const timer = setTimeout(() => {
+      // Never past the next decision page, whose choice is still to come
+      const nextDecision = layout.decisionPages.find(page => page > lastPage) ?? layout.totalPages;
+      const count = Math.min(prefetchDepth, prefetchBudget - prefetchWastedRef.current, nextDecision - lastPage);
+      if (count < 1) return;
+      generateBatch(lastPage + 1, count, state.comicFaces, state.config, issueId, state.activeBranchId, undefined, true);
+    }, PREFETCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [speculativePrefetch, prefetchDepth, prefetchBudget, state.status, state.currentIssue, state.hero, state.config, state.prefetchedFaces, state.jobs, state.comicFaces, state.activeBranchId, generateBatch]);
+
+  /**
+   * Appends an issue to its series record, creating the series on first use.
+   */
+  const registerSeriesIssue = useCallback(async (continuity: SeriesContinuity, issueId: string) => {
+    const existing = await StorageService.getSeries(continuity.seriesId);
+    const issueIds = existing?.issueIds ?? [];
+    await StorageService.saveSeries({
+      id: continuity.seriesId,
+      title: continuity.seriesTitle,
+      issueIds: issueIds.includes(issueId) ? issueIds : [...issueIds, issueId],
+      createdAt: existing?.createdAt ?? Date.now(),
+      updatedAt: Date.now(),
+    });
+  }, []);
 
   const launchStory = useCallback(async () => {
     if (!state.hero) return;
-    dispatch({ type: 'START_ADVENTURE' });
+    const issueId = `issue-${Date.now()}`;
+    dispatch({ type: 'START_ADVENTURE', payload: { issueId } });
 
-    const startTime = Date.now();
-
-    // Dispatch Launch Progress
-    dispatch({
-        type: 'SET_LOADING_PROGRESS',
-        payload: {
-            current: 1,
-            total: 3,
-            label: "Painting Cover Art",
-            substep: 'Calling Gemini API (gemini-3-pro-image-preview) for cover design...',
-            percentage: 33,
-            startTime
-        }
-    });
+    if (state.config.continuity) {
+      registerSeriesIssue(state.config.continuity, issueId).catch(error => {
+        logger.logError('Series Save Error', error, { area: 'storage', action: 'saveSeries', metadata: { issueId } });
+      });
+    }
 
     // Generate Cover
     const coverFace: ComicFace = { id: 'cover', type: 'cover', choices: [], isLoading: true, pageIndex: 0 };
     dispatch({ type: 'ADD_FACES', payload: [coverFace] });
-    generatingPagesRef.current.add(0);
-
-    // Create AbortController for cover image generation
-    const coverController = new AbortController();
-    activeControllersRef.current.set('cover-image', coverController);
 
-    try {
-        const url = await AiService.generateImage(
-          { scene: "Cover", choices: [], focus_char: 'hero' },
-          'cover',
-          state.config,
-          state.hero,
-          state.friend,
-          state.currentWorld,
-          coverController.signal
-        );
-        dispatch({ type: 'UPDATE_FACE', payload: { id: 'cover', updates: { imageUrl: url, isLoading: false } } });
-        generatingPagesRef.current.delete(0);
-        activeControllersRef.current.delete('cover-image');
-        
-        // Update after cover complete
-        dispatch({
-            type: 'SET_LOADING_PROGRESS',
-            payload: {
-                current: 2,
-                total: 3,
-                label: "Painting Cover Art",
-                substep: '✓ Epic cover art complete!',
-                percentage: 67,
-                startTime
-            }
-        });
-    } catch (e) {
-      logger.logError('Launch Error', e, { area: 'generation', action: 'launchStory' });
-      activeControllersRef.current.delete('cover-image');
-      dispatch({ type: 'SET_ERROR', payload: "API_KEY_ERROR" });
+    const cover = jobQueue.add({ kind: 'cover', issueId, branchId: TRUNK_BRANCH_ID, pageIndex: 0 });
+    const settled = await jobQueue.whenSettled(cover.id);
+    if (settled?.status !== 'done') {
+      // Cancelled or cleared away by the reader; only a failure is an error
+      if (settled?.status === 'failed') dispatch({ type: 'SET_ERROR', payload: "API_KEY_ERROR" });
       return;
     }
 
+    // Keep the progress up through the transition
+    clearJobProgressTimeout();
+    const startTime = settled.createdAt;
     dispatch({
         type: 'SET_LOADING_PROGRESS',
         payload: {
@@ -562,13 +1100,13 @@ export const useComicEngine = () => {
             payload: {
                 current: 3,
                 total: 3,
-                label: "Starting Issue #1",
+                label: `Starting Issue #${state.config.continuity?.issueNumber ?? 1}`,
                 substep: 'Launching your adventure...',
                 percentage: 100,
                 startTime
             }
         });
-        generateBatch(1, INITIAL_PAGES, [coverFace], state.hero!, state.friend, state.config, state.currentWorld, state.config.openingPrompt);
+        generateBatch(1, INITIAL_PAGES, [coverFace], state.config, issueId, TRUNK_BRANCH_ID, state.config.openingPrompt);
 
         // Removed subsequent auto-batches to allow user direction
         activeTimeoutsRef.current.delete(transitionTimeout);
@@ -576,48 +1114,465 @@ export const useComicEngine = () => {
 
     activeTimeoutsRef.current.add(transitionTimeout);
 
-  }, [state.config, state.hero, state.friend, state.currentWorld, generateBatch]);
+  }, [state.config, state.hero, jobQueue, generateBatch, registerSeriesIssue, clearJobProgressTimeout]);
 
+  /**
+   * Writes the next pages from the director's instruction. An empty one
+   * carries on without guidance, which is what prefetched pages assumed, so
+   * those are shown instead; any other instruction throws them away.
+   */
   const continueStory = useCallback((userGuidance: string) => {
+      if (state.prefetchedFaces.length > 0) {
+          if (!userGuidance.trim()) {
+              adoptPrefetch();
+              dispatch({ type: 'SET_SHEET_INDEX', payload: state.currentSheetIndex + 1 });
+              return;
+          }
+          discardPrefetch();
+      }
       const currentMax = Math.max(...state.comicFaces.map((f: ComicFace) => f.pageIndex || 0));
-      if (currentMax < TOTAL_PAGES) {
+      if (state.currentIssue && currentMax < getIssueLayout(state.config).totalPages) {
           const nextPage = currentMax + 1;
           // Generate small batch (2 pages) to keep control tight
-          generateBatch(nextPage, BATCH_SIZE, state.comicFaces, state.hero!, state.friend, state.config, state.currentWorld, userGuidance);
+          generateBatch(nextPage, BATCH_SIZE, state.comicFaces, state.config, state.currentIssue.id, state.activeBranchId, userGuidance.trim() || undefined);
           // Auto flip to next sheet (assuming user is on the Director page which is technically +1 from current max render)
           dispatch({ type: 'SET_SHEET_INDEX', payload: state.currentSheetIndex + 1 });
       }
-  }, [state.comicFaces, state.hero, state.friend, state.config, state.currentWorld, generateBatch, state.currentSheetIndex]);
+  }, [state.comicFaces, state.prefetchedFaces, state.config, state.currentIssue, state.activeBranchId, generateBatch, adoptPrefetch, discardPrefetch, state.currentSheetIndex]);
 
   const handleChoice = useCallback(async (pageIndex: number, choice: string) => {
+    discardPrefetch();
     dispatch({ type: 'UPDATE_FACE', payload: { id: `page-${pageIndex}`, updates: { resolvedChoice: choice } } });
     // For decisions, we treat the choice AS the guidance for the next batch
     const currentMax = Math.max(...state.comicFaces.map((f: ComicFace) => f.pageIndex || 0));
-    if (currentMax + 1 <= TOTAL_PAGES) {
-      generateBatch(currentMax + 1, BATCH_SIZE, state.comicFaces, state.hero!, state.friend, state.config, state.currentWorld, `User chose: ${choice}`);
+    if (state.currentIssue && currentMax + 1 <= getIssueLayout(state.config).totalPages) {
+      generateBatch(currentMax + 1, BATCH_SIZE, state.comicFaces, state.config, state.currentIssue.id, state.activeBranchId, `User chose: ${choice}`);
       dispatch({ type: 'SET_SHEET_INDEX', payload: state.currentSheetIndex + 1 });
     }
-  }, [state.comicFaces, state.hero, state.friend, state.config, state.currentWorld, generateBatch, state.currentSheetIndex]);
+  }, [state.comicFaces, state.config, state.currentIssue, state.activeBranchId, generateBatch, discardPrefetch, state.currentSheetIndex]);
+
+  const dismissFailedJobs = useCallback(() => {
+    jobQueue.list().filter(job => job.status === 'failed').forEach(job => jobQueue.dismiss(job.id));
+  }, [jobQueue]);
+
+  /**
+   * Follows a different choice on an already decided page. Reuses the branch
+   * that took that choice if there is one, otherwise forks a new branch from
+   * the page's owner and writes its first pages.
+   */
+  const exploreChoice = useCallback((pageIndex: number, choice: string) => {
+    const face = state.comicFaces.find(f => f.pageIndex === pageIndex);
+    if (!face?.isDecisionPage || !state.hero || !state.currentIssue) return;
+    discardPrefetch();
+    if (jobQueue.isBusy()) {
+      dispatch({ type: 'ADD_NOTIFICATION', payload: {
+        id: `notif-${Date.now()}-${Math.random()}`,
+        type: 'warning',
+        message: 'Wait for the current pages to finish before switching branches.',
+        timestamp: Date.now(),
+      }});
+      return;
+    }
+
+    const branches = stashActiveBranch(state);
+    const { owner, target } = findBranchForChoice(branches, state.activeBranchId, pageIndex, choice);
+    if (!owner) return;
+
+    // Land on the first page after the fork
+    const sheetIndex = Math.ceil((pageIndex + 1) / 2);
+
+    // Failed jobs belong to the branch being left
+    dismissFailedJobs();
+    if (target) {
+      dispatch({ type: 'SWITCH_BRANCH', payload: target.id });
+      dispatch({ type: 'SET_SHEET_INDEX', payload: sheetIndex });
+      return;
+    }
+
+    const branch: StoryBranch = {
+      id: `branch-${Date.now()}`,
+      parentId: owner.id,
+      forkPage: pageIndex,
+      choice,
+      faces: [],
+      createdAt: Date.now(),
+    };
+    dispatch({ type: 'CREATE_BRANCH', payload: branch });
+    dispatch({ type: 'SET_SHEET_INDEX', payload: sheetIndex });
+
+    const path = composeBranchPath([...branches, branch], branch.id);
+    if (pageIndex + 1 <= getIssueLayout(state.config).totalPages) {
+      generateBatch(pageIndex + 1, BATCH_SIZE, path, state.config, state.currentIssue.id, branch.id, `User chose: ${choice}`);
+    }
+  }, [state, jobQueue, generateBatch, dismissFailedJobs, discardPrefetch]);
+
+  const switchBranch = useCallback((branchId: string) => {
+    if (branchId === state.activeBranchId) return;
+    discardPrefetch();
+    if (jobQueue.isBusy()) {
+      dispatch({ type: 'ADD_NOTIFICATION', payload: {
+        id: `notif-${Date.now()}-${Math.random()}`,
+        type: 'warning',
+        message: 'Wait for the current pages to finish before switching branches.',
+        timestamp: Date.now(),
+      }});
+      return;
+    }
+    const branch = state.branches.find(b => b.id === branchId);
+    dismissFailedJobs();
+    dispatch({ type: 'SWITCH_BRANCH', payload: branchId });
+    dispatch({ type: 'SET_SHEET_INDEX', payload: branch?.parentId ? Math.ceil((branch.forkPage + 1) / 2) : 1 });
+  }, [state.activeBranchId, state.branches, jobQueue, dismissFailedJobs, discardPrefetch]);
+
+  /**
+   * Re-letters the pages on screen in another language as a separate edition
+   * of the same art, then switches to it. Only pages lettered over textless
+   * art can change language; text drawn into the art stays as it is.
+   */
+  const translateIssue = useCallback(async (language: string) => {
+    if (language === state.config.language) {
+      dispatch({ type: 'SET_ACTIVE_EDITION', payload: null });
+      return;
+    }
+    const warn = (message: string) => dispatch({ type: 'ADD_NOTIFICATION', payload: {
+      id: `notif-${Date.now()}-${Math.random()}`,
+      type: 'warning',
+      message,
+      timestamp: Date.now(),
+    }});
+    // Prefetched pages would finish in the original language only
+    discardPrefetch();
+    if (jobQueue.isBusy() || activeControllersRef.current.has('translate-issue')) {
+      warn('Wait for the current pages to finish before translating.');
+      return;
+    }
+    if (!state.comicFaces.some(face => face.lettering?.length)) {
+      warn('This issue has its text drawn into the art. Turn on Crisp Lettering for new issues to translate them.');
+      return;
+    }
+
+    const pages = getEditionSource(state.comicFaces);
+    const texts = collectEditionTexts(pages);
+    const langName = LANGUAGES.find(l => l.code === language)?.name || language;
+    const batches = Math.max(1, Math.ceil(texts.length / TRANSLATION_BATCH_SIZE));
+    const controller = new AbortController();
+    activeControllersRef.current.set('translate-issue', controller);
+    const startTime = Date.now();
+
+    try {
+      const translated: string[] = [];
+      for (let batch = 0; batch < batches; batch++) {
+        dispatch({ type: 'SET_LOADING_PROGRESS', payload: {
+          current: batch + 1,
+          total: batches,
+          label: `Translating into ${langName}`,
+          substep: `Re-lettering ${texts.length} captions, balloons and choices...`,
+          percentage: Math.round((batch / batches) * 100),
+          startTime,
+        }});
+        const chunk = texts.slice(batch * TRANSLATION_BATCH_SIZE, (batch + 1) * TRANSLATION_BATCH_SIZE);
+        if (chunk.length) translated.push(...await AiService.translateTexts(chunk, language, state.config, controller.signal));
+      }
+
+      const dictionary = new Map(texts.map((text, i) => [text, translated[i] ?? text]));
+      dispatch({ type: 'ADD_EDITION', payload: {
+        language,
+        branchId: state.activeBranchId,
+        pages: mapEditionTexts(pages, text => dictionary.get(text) ?? text),
+        createdAt: Date.now(),
+      }});
+      dispatch({ type: 'SET_ACTIVE_EDITION', payload: language });
+      dispatch({ type: 'ADD_NOTIFICATION', payload: {
+        id: `notif-${Date.now()}-${Math.random()}`,
+        type: 'success',
+        message: `${langName} edition ready.`,
+        timestamp: Date.now(),
+      }});
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      logger.logError('Translation Error', e, { area: 'generation', action: 'translateIssue', metadata: { language } });
+      dispatch({ type: 'ADD_NOTIFICATION', payload: {
+        id: `notif-${Date.now()}-${Math.random()}`,
+        type: 'error',
+        message: `Could not translate this issue into ${langName}. Please try again.`,
+        timestamp: Date.now(),
+      }});
+    } finally {
+      activeControllersRef.current.delete('translate-issue');
+      dispatch({ type: 'SET_LOADING_PROGRESS', payload: null });
+    }
+  }, [state.config, state.comicFaces, state.activeBranchId, jobQueue, discardPrefetch]);
+
+  // null returns to the original language
+  const switchEdition = useCallback((language: string | null) => dispatch({ type: 'SET_ACTIVE_EDITION', payload: language }), []);
 
   const setSheetIndex = useCallback((idx: number) => dispatch({ type: 'SET_SHEET_INDEX', payload: idx }), []);
+  // Queued jobs stay in storage and resume when their issue is opened again
+  const clearJobs = useCallback(() => {
+      jobQueue.clear();
+      jobGenerationRef.current += 1;
+      jobHistoryRef.current.clear();
+      castFriendRef.current = null;
+      prefetchedPagesRef.current = 0;
+      prefetchWastedRef.current = 0;
+  }, [jobQueue]);
+
   const reset = useCallback(() => {
-      generatingPagesRef.current.clear();
+      clearJobs();
       dispatch({ type: 'RESET' });
-  }, []);
+  }, [clearJobs]);
 
   const startNewBook = useCallback(() => {
       abortAllOperations();
       clearAllTimeouts();
       activeControllersRef.current.clear();
-      generatingPagesRef.current.clear();
+      clearJobs();
       dispatch({ type: 'RESET' });
-  }, [abortAllOperations, clearAllTimeouts]);
+  }, [abortAllOperations, clearAllTimeouts, clearJobs]);
+
+  /**
+   * Opens an issue from the library and picks up the jobs it had left on
+   * the queue for the branch it was on, e.g. pages still inking when the tab
+   * was closed.
+   */
+  const resumeIssue = useCallback((issue: ComicIssue) => {
+      abortAllOperations();
+      clearAllTimeouts();
+      activeControllersRef.current.clear();
+      clearJobs();
+      dispatch({ type: 'LOAD_ISSUE', payload: issue });
+
+      const branchId = issue.activeBranchId ?? TRUNK_BRANCH_ID;
+      const generation = jobGenerationRef.current;
+      StorageService.getJobs(issue.id).then(stored => {
+        const jobs = stored.filter(job => job.branchId === branchId);
+        // Another issue may have been opened meanwhile
+        if (jobs.length === 0 || !isMountedRef.current || generation !== jobGenerationRef.current) return;
+
+        const pageIndexes = [...new Set(jobs.map(job => job.pageIndex))];
+        const placeholders: ComicFace[] = pageIndexes
+          .filter(pageIndex => !issue.comicFaces.some(face => face.pageIndex === pageIndex))
+          .map(pageIndex => {
+            // Beats already written travel with their art jobs
+            const narrative = jobs.find(job => job.pageIndex === pageIndex && job.kind === 'image' && !job.take)?.beat;
+            return {
+              id: getFaceId(pageIndex),
+              type: pageIndex === 0 ? 'cover' : jobs.some(job => job.pageIndex === pageIndex && job.kind === 'back_cover') ? 'back_cover' : 'story',
+              choices: narrative?.choices ?? [],
+              narrative,
+              isLoading: true,
+              pageIndex,
+              isDecisionPage: jobs.find(job => job.pageIndex === pageIndex)?.isDecisionPage,
+            };
+          });
+        dispatch({ type: 'ADD_FACES', payload: placeholders });
+        issue.comicFaces
+          .filter(face => pageIndexes.includes(face.pageIndex || 0))
+          .forEach(face => dispatch({ type: 'UPDATE_FACE', payload: { id: face.id, updates: { isLoading: true } } }));
+
+        jobHistoryRef.current.set(branchId, [...issue.comicFaces, ...placeholders]);
+        jobQueue.restore(jobs);
+        dispatch({ type: 'ADD_NOTIFICATION', payload: {
+          id: `notif-${Date.now()}-${Math.random()}`,
+          type: 'info',
+          message: `Resuming ${jobs.length} unfinished job${jobs.length > 1 ? 's' : ''} for this issue.`,
+          timestamp: Date.now(),
+        }});
+      }).catch(error => {
+        logger.logError('Job Restore Error', error, { area: 'storage', action: 'getJobs', metadata: { issueId: issue.id } });
+      });
+  }, [abortAllOperations, clearAllTimeouts, clearJobs, jobQueue]);
+
+  /**
+   * Files a comic archive from any reader as a new issue and opens it.
+   * Read errors propagate so the caller can say what was wrong with the file.
+   */
+  const importCbz = useCallback(async (file: File) => {
+    const issue = buildIssueFromCbz(await readCbz(file), state.config);
+    await StorageService.saveIssue(issue);
+    resumeIssue(issue);
+    return issue;
+  }, [state.config, resumeIssue]);
+
+  const deleteIssue = useCallback((id: string) => StorageService.deleteIssue(id), []);
+
+  /**
+   * Downloads the open issue as a .heroes project, with the reader's place,
+   * so it can be carried on with on another device.
+   */
+  const exportProject = useCallback(() => {
+    const finishedFaces = state.comicFaces.filter(face => face.imageUrl && !face.isLoading);
+    const issue = buildIssueSnapshot(state, finishedFaces, state.config);
+    if (!issue || finishedFaces.length === 0) {
+      dispatch({ type: 'ADD_NOTIFICATION', payload: {
+        id: `notif-${Date.now()}-${Math.random()}`,
+        type: 'info',
+        message: 'Start a story first, then export it as a project file.',
+        timestamp: Date.now(),
+      }});
+      return;
+    }
+
+    try {
+      const blob = buildProjectFile(issue, { currentSheetIndex: state.currentSheetIndex, activeEdition: state.activeEdition });
+      const fileName = issue.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'Infinite-Heroes-Issue';
+      downloadBlob(blob, `${fileName}.${PROJECT_EXTENSION}`);
+    } catch (e) {
+      logger.logError('Project Export Error', e, { area: 'storage', action: 'exportProject', metadata: { issueId: issue.id } });
+      dispatch({ type: 'ADD_NOTIFICATION', payload: {
+        id: `notif-${Date.now()}-${Math.random()}`,
+        type: 'error',
+        message: 'Could not export this project. Please try again.',
+        timestamp: Date.now(),
+      }});
+    }
+  }, [state]);
+
+  /**
+   * Restores a .heroes project into the library and opens it where the
+   * reader left off, on the same branch and in the same edition.
+   */
+  const importProject = useCallback(async (file: File) => {
+    const { issue, reading } = await readProjectFile(file);
+    await StorageService.saveIssue(issue);
+    resumeIssue(issue);
+    dispatch({ type: 'SET_SHEET_INDEX', payload: reading.currentSheetIndex });
+    if (reading.activeEdition) dispatch({ type: 'SET_ACTIVE_EDITION', payload: reading.activeEdition });
+    return issue;
+  }, [resumeIssue]);
+
+  /**
+   * Files the current issue under its series (starting one if this was a
+   * standalone issue) and returns to setup with a recap of what happened,
+   * so the next issue picks up from the cliffhanger.
+   */
+  const startNextIssue = useCallback(async () => {
+    if (!state.currentIssue || !state.hero) return;
+
+    const continuity: SeriesContinuity = state.config.continuity ?? {
+      seriesId: `series-${Date.now()}`,
+      seriesTitle: state.hero.name || 'Infinite Heroes',
+      issueNumber: 1,
+    };
+
+    const finishedFaces = state.comicFaces.filter(face => face.imageUrl && !face.isLoading);
+    const issue = buildIssueSnapshot(state, finishedFaces, { ...state.config, continuity });
+
+    try {
+      if (issue) await StorageService.saveIssue(issue);
+      await registerSeriesIssue(continuity, state.currentIssue.id);
+    } catch (error) {
+      logger.logError('Series Save Error', error, { area: 'storage', action: 'startNextIssue', metadata: { seriesId: continuity.seriesId } });
+      dispatch({ type: 'ADD_NOTIFICATION', payload: {
+        id: `notif-${Date.now()}-${Math.random()}`,
+        type: 'error',
+        message: 'Failed to save this issue to its series. Please try again.',
+        timestamp: Date.now(),
+      }});
+      return;
+    }
+
+    abortAllOperations();
+    clearAllTimeouts();
+    activeControllersRef.current.clear();
+    clearJobs();
+    dispatch({
+      type: 'PREPARE_NEXT_ISSUE',
+      payload: {
+        seriesId: continuity.seriesId,
+        seriesTitle: continuity.seriesTitle,
+        issueNumber: continuity.issueNumber + 1,
+        previousRecap: buildIssueRecap(state.comicFaces),
+      },
+    });
+  }, [state, registerSeriesIssue, abortAllOperations, clearAllTimeouts, clearJobs]);
+
+  /**
+   * Draws a new take of one page from its existing beat, e.g. when the
+   * likeness is off or the provider came back without an image.
+   */
+  const reinkPage = useCallback((pageIndex: number) => {
+    const face = state.comicFaces.find(f => f.pageIndex === pageIndex);
+    if (!face || !state.hero || !state.currentIssue || jobQueue.isBusy(pageIndex)) return;
+
+    dispatch({ type: 'UPDATE_FACE', payload: { id: face.id, updates: { isLoading: true } } });
+    jobQueue.add({
+      kind: 'image',
+      issueId: state.currentIssue.id,
+      branchId: state.activeBranchId,
+      pageIndex,
+      priority: TAKE_PRIORITY,
+      take: 'reink',
+    });
+  }, [state.comicFaces, state.hero, state.currentIssue, state.activeBranchId, jobQueue]);
+
+  /**
+   * Writes a new beat for one story page from the pages before it, then inks
+   * it as a new take. Decision pages whose choice was already made are left
+   * alone since later pages were written from that choice.
+   */
+  const rewritePage = useCallback((pageIndex: number) => {
+    const face = state.comicFaces.find(f => f.pageIndex === pageIndex);
+    if (!face || face.type !== 'story' || face.resolvedChoice || !state.hero || !state.currentIssue || jobQueue.isBusy(pageIndex)) return;
+
+    // Later pages were prefetched from the draft being replaced
+    discardPrefetch();
+    dispatch({ type: 'UPDATE_FACE', payload: { id: face.id, updates: { isLoading: true } } });
+
+    const previousChoice = state.comicFaces.find(f => f.pageIndex === pageIndex - 1)?.resolvedChoice;
+    // Guidance also keeps the provider from answering with its cached beat for this page
+    const guidance = [
+      previousChoice && `User chose: ${previousChoice}`,
+      face.narrative && `Write a different take on this page than the previous draft (${face.narrative.scene})`,
+    ].filter(Boolean).join('. ');
+
+    jobHistoryRef.current.set(state.activeBranchId, state.comicFaces);
+    jobQueue.add({
+      kind: 'beat',
+      issueId: state.currentIssue.id,
+      branchId: state.activeBranchId,
+      pageIndex,
+      priority: TAKE_PRIORITY,
+      isDecisionPage: getIssueLayout(state.config).decisionPages.includes(pageIndex),
+      guidance,
+      take: 'rewrite',
+    });
+  }, [state.comicFaces, state.hero, state.config, state.currentIssue, state.activeBranchId, jobQueue, discardPrefetch]);
+
+  const selectTake = useCallback((pageIndex: number, takeIndex: number) => {
+    const face = state.comicFaces.find(f => f.pageIndex === pageIndex);
+    const take = face?.takes?.[takeIndex];
+    if (!face || !take || face.isLoading) return;
+    dispatch({ type: 'UPDATE_FACE', payload: { id: face.id, updates: {
+      activeTake: takeIndex,
+      imageUrl: take.imageUrl,
+      narrative: take.narrative,
+      lettering: take.lettering,
+      choices: take.narrative?.choices ?? face.choices,
+    } } });
+  }, [state.comicFaces]);
+
+  /**
+   * Saves hand-placed lettering for a page, on the active take too so
+   * flipping between takes doesn't lose it.
+   */
+  const updateLettering = useCallback((pageIndex: number, lettering: LetteringElement[]) => {
+    if (state.activeEdition) {
+      dispatch({ type: 'UPDATE_EDITION_PAGE', payload: { language: state.activeEdition, pageIndex, updates: { lettering } } });
+      return;
+    }
+    const face = state.comicFaces.find(f => f.pageIndex === pageIndex);
+    if (!face) return;
+    const takes = face.takes?.map((take, i) => (i === face.activeTake ? { ...take, lettering } : take));
+    dispatch({ type: 'UPDATE_FACE', payload: { id: face.id, updates: { lettering, takes } } });
+  }, [state.comicFaces, state.activeEdition]);
 
   const abortGeneration = useCallback(() => {
+    discardPrefetch();
+    jobQueue.cancelAll();
     abortAllOperations();
     clearAllTimeouts();
     activeControllersRef.current.clear();
-    generatingPagesRef.current.clear();
 
     state.comicFaces
       .filter(face => face.isLoading)
@@ -637,7 +1592,24 @@ export const useComicEngine = () => {
         timestamp: Date.now(),
       },
     });
-  }, [abortAllOperations, clearAllTimeouts, state.comicFaces]);
+  }, [abortAllOperations, clearAllTimeouts, state.comicFaces, jobQueue, discardPrefetch]);
+
+  /**
+   * Queue controls for the progress panel. Retrying puts the pages of the
+   * job, and of everything waiting on it, back into loading.
+   */
+  const cancelJob = useCallback((id: string) => jobQueue.cancel(id), [jobQueue]);
+
+  const retryJob = useCallback((id: string) => {
+    const job = jobQueue.get(id);
+    if (!job) return;
+    new Set([job, ...jobQueue.dependentsOf(id)].map(other => other.pageIndex)).forEach(pageIndex => {
+      dispatch({ type: 'UPDATE_FACE', payload: { id: getFaceId(pageIndex), updates: { isLoading: true } } });
+    });
+    jobQueue.retry(id);
+  }, [jobQueue]);
+
+  const dismissJob = useCallback((id: string) => jobQueue.dismiss(id), [jobQueue]);
 
   // Notification actions
   const addNotification = useCallback((type: NotificationType, message: string, duration: number = 5000) => {
@@ -674,10 +1646,28 @@ export const useComicEngine = () => {
       launchStory,
       continueStory, // Exported
       handleChoice,
+      exploreChoice,
+      switchBranch,
+      translateIssue,
+      switchEdition,
       setSheetIndex,
       reset,
       startNewBook,
+      resumeIssue,
+      importCbz,
+      exportProject,
+      importProject,
+      deleteIssue,
+      startNextIssue,
+      submitScript,
+      reinkPage,
+      rewritePage,
+      selectTake,
+      updateLettering,
       abortGeneration,
+      cancelJob,
+      retryJob,
+      dismissJob,
       clearError: () => dispatch({ type: 'SET_ERROR', payload: '' }),
       addNotification,
       removeNotification,
@@ -41,6 +41,8 @@ export const useEnhancedPresets = () => {
     actions.updateConfig({
       modelPresetId: presetId,
       aiProvider: preset.provider,
+      textProvider: preset.textProvider,
+      imageProvider: preset.imageProvider,
       textModel: preset.textModel,
       imageModel: preset.imageModel,
       textPrompt: preset.textPrompt,
@@ -53,6 +55,8 @@ export const useEnhancedPresets = () => {
   const saveCurrentAsPreset = useCallback(async (name: string) => {
     const newPreset = await createPreset(name, {
       provider: state.config.aiProvider,
+      textProvider: state.config.textProvider,
+      imageProvider: state.config.imageProvider,
       textModel,
       imageModel,
       textPrompt,
@@ -69,6 +73,8 @@ export const useEnhancedPresets = () => {
     return newPreset;
   }, [
     state.config.aiProvider,
+    state.config.textProvider,
+    state.config.imageProvider,
     textModel,
     imageModel,
     textPrompt,
@@ -86,6 +92,8 @@ export const useEnhancedPresets = () => {
     await savePreset({
       ...preset,
       provider: state.config.aiProvider,
+      textProvider: state.config.textProvider,
+      imageProvider: state.config.imageProvider,
       textModel,
       imageModel,
       textPrompt,
@@ -97,6 +105,8 @@ export const useEnhancedPresets = () => {
   }, [
     selectedPresetId,
     state.config.aiProvider,
+    state.config.textProvider,
+    state.config.imageProvider,
     textModel,
     imageModel,
     textPrompt,
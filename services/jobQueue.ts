@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerationJob, GenerationJobKind, PageGenerationState, PageProgress } from '../types';
+
+/**
+ * Jobs run in two lanes. Text runs one job at a time because every beat is
+ * written from the pages before it; images have no such dependency and run
+ * as many at once as the image lane allows.
+ */
+export type JobLane = 'text' | 'image';
+
+const JOB_LANES: Record<GenerationJobKind, JobLane> = {
+  persona: 'text',
+  beat: 'text',
+  image: 'image',
+  cover: 'image',
+  back_cover: 'image',
+};
+
+// The cover gates the book, and a sidekick has to be cast before the next beat writes them in
+const JOB_PRIORITIES: Record<GenerationJobKind, number> = {
+  cover: 40,
+  persona: 30,
+  beat: 20,
+  back_cover: 10,
+  image: 10,
+};
+
+// Re-inks and rewrites the reader asked for go ahead of pages still being written
+export const TAKE_PRIORITY = 25;
+
+export type NewGenerationJob = Pick<GenerationJob, 'kind' | 'issueId' | 'branchId' | 'pageIndex'>
+  & Partial<Pick<GenerationJob, 'priority' | 'dependsOn' | 'guidance' | 'isDecisionPage' | 'beat' | 'take' | 'speculative'>>;
+
+interface JobQueueOptions {
+  // Does the work; whatever it returns is stored on the finished job
+  run: (job: GenerationJob, signal: AbortSignal) => Promise<Partial<GenerationJob> | void>;
+  // Every change, for display
+  onChange: (jobs: GenerationJob[]) => void;
+  // Jobs added, started or settled; only these are worth writing to storage
+  onPersist: (issueId: string, pending: GenerationJob[]) => void;
+  onSettled: (job: GenerationJob) => void;
+}
+
+const isActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+
+export class JobQueue {
+  private jobs = new Map<string, GenerationJob>();
+  private controllers = new Map<string, AbortController>();
+  private waiters = new Map<string, Array<(job: GenerationJob | undefined) => void>>();
+  private limits: Record<JobLane, number> = { text: 1, image: 1 };
+  private sequence = 0;
+
+  constructor(private readonly options: JobQueueOptions) {}
+
+  setImageConcurrency(limit: number) {
+    this.limits.image = Math.max(1, Math.floor(limit));
+    this.pump();
+  }
+
+  list(): GenerationJob[] {
+    return [...this.jobs.values()];
+  }
+
+  get(id: string): GenerationJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  isBusy(pageIndex?: number): boolean {
+    return this.list().some(job => isActive(job) && (pageIndex === undefined || job.pageIndex === pageIndex));
+  }
+
+  add(input: NewGenerationJob): GenerationJob {
+    // A new run starts from a clean list; failures stay until retried or dismissed
+    if (!this.isBusy()) this.list().filter(job => job.status === 'done' || job.status === 'cancelled').forEach(job => this.jobs.delete(job.id));
+
+    const now = Date.now();
+    const job: GenerationJob = {
+      ...input,
+      priority: input.priority ?? JOB_PRIORITIES[input.kind],
+      dependsOn: input.dependsOn ?? [],
+      id: `job-${now}-${++this.sequence}`,
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    this.changed(job.issueId);
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Puts jobs read back from storage on the queue. Jobs that were running
+   * when the page went away start over.
+   */
+  restore(jobs: GenerationJob[]) {
+    jobs.forEach(job => this.jobs.set(job.id, { ...job, status: 'queued', preview: undefined, reviewing: undefined, panel: undefined, panelCount: undefined }));
+    if (jobs[0]) this.changed(jobs[0].issueId);
+    this.pump();
+  }
+
+  // Live detail from a running job, such as the script streaming in or the panel being drawn
+  update(id: string, patch: Pick<Partial<GenerationJob>, 'preview' | 'reviewing' | 'panel' | 'panelCount'>) {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') return;
+    this.jobs.set(id, { ...job, ...patch });
+    this.options.onChange(this.list());
+  }
+
+  // Resolves with the job once it is done, failed or cancelled; undefined if it was cleared away
+  whenSettled(id: string): Promise<GenerationJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job || !isActive(job)) return Promise.resolve(job);
+    return new Promise(resolve => this.waiters.set(id, [...(this.waiters.get(id) ?? []), resolve]));
+  }
+
+  // The reader caught up with a speculative job, so it is kept like any other
+  adopt(id: string) {
+    const job = this.jobs.get(id);
+    if (!job?.speculative) return;
+    this.jobs.set(id, { ...job, speculative: false });
+    this.changed(job.issueId);
+  }
+
+  /**
+   * Cancels a job and everything waiting on it. A running job is aborted.
+   */
+  cancel(id: string) {
+    const job = this.jobs.get(id);
+    if (!job || !isActive(job)) return;
+    this.settle(id, { status: 'cancelled' });
+    this.controllers.get(id)?.abort(new Error('Job cancelled'));
+    this.list().filter(other => other.dependsOn.includes(id)).forEach(other => this.cancel(other.id));
+  }
+
+  cancelAll() {
+    this.list().filter(isActive).forEach(job => this.cancel(job.id));
+  }
+
+  /**
+   * Runs a failed or cancelled job again. Jobs waiting on it carry on once
+   * it is done.
+   */
+  retry(id: string) {
+    const job = this.jobs.get(id);
+    if (!job || isActive(job) || job.status === 'done') return;
+    this.jobs.set(id, { ...job, status: 'queued', error: undefined, updatedAt: Date.now() });
+    this.changed(job.issueId);
+    this.pump();
+  }
+
+  dismiss(id: string) {
+    const job = this.jobs.get(id);
+    if (!job || isActive(job)) return;
+    // Nothing that needed it can run without it
+    this.dependentsOf(id).forEach(other => this.cancel(other.id));
+    this.jobs.delete(id);
+    this.options.onChange(this.list());
+  }
+
+  /**
+   * Drops every job without touching storage, e.g. when another issue is
+   * opened; the stored ones resume when this issue is opened again.
+   */
+  clear() {
+    this.controllers.forEach(controller => controller.abort(new Error('Queue cleared')));
+    this.controllers.clear();
+    const jobs = this.list();
+    this.jobs.clear();
+    jobs.forEach(job => this.release(job.id, undefined));
+    this.options.onChange([]);
+  }
+
+  // Queued jobs waiting on this one, directly or through another job
+  dependentsOf(id: string): GenerationJob[] {
+    const direct = this.list().filter(job => job.dependsOn.includes(id) && job.status === 'queued');
+    return direct.flatMap(job => [job, ...this.dependentsOf(job.id)]);
+  }
+
+  private changed(issueId: string) {
+    this.options.onChange(this.list());
+    this.options.onPersist(issueId, this.list().filter(job => job.issueId === issueId && isActive(job)));
+  }
+
+  private release(id: string, job: GenerationJob | undefined) {
+    this.waiters.get(id)?.forEach(resolve => resolve(job));
+    this.waiters.delete(id);
+  }
+
+  private settle(id: string, patch: Partial<GenerationJob>) {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    const settled: GenerationJob = { ...job, ...patch, preview: undefined, reviewing: undefined, panel: undefined, panelCount: undefined, updatedAt: Date.now() };
+    this.jobs.set(id, settled);
+    this.changed(settled.issueId);
+    this.options.onSettled(settled);
+    this.release(id, settled);
+  }
+
+  // Highest priority first, then page order, then the order jobs were added
+  private next(lane: JobLane): GenerationJob | undefined {
+    return this.list()
+      .filter(job => job.status === 'queued' && JOB_LANES[job.kind] === lane)
+      // Finished dependencies aren't stored, so one missing after a reload was done
+      .filter(job => job.dependsOn.every(dep => (this.jobs.get(dep)?.status ?? 'done') === 'done'))
+      .sort((a, b) => b.priority - a.priority || a.pageIndex - b.pageIndex || a.createdAt - b.createdAt)[0];
+  }
+
+  private pump() {
+    (['text', 'image'] as const).forEach(lane => {
+      // Counted afresh each time; a starting job may add jobs and pump again
+      const running = () => this.list().filter(job => job.status === 'running' && JOB_LANES[job.kind] === lane).length;
+      for (let job = this.next(lane); job && running() < this.limits[lane]; job = this.next(lane)) {
+        this.start(job).catch(error => console.error('[Job Queue] Job runner failed', error));
+      }
+    });
+  }
+
+  private async start(job: GenerationJob) {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    const running: GenerationJob = { ...job, status: 'running', attempts: job.attempts + 1, updatedAt: Date.now() };
+    this.jobs.set(job.id, running);
+    this.changed(job.issueId);
+
+    try {
+      const result = await this.options.run(running, controller.signal);
+      // A job cancelled meanwhile keeps its cancelled status
+      if (this.jobs.get(job.id)?.status === 'running') this.settle(job.id, { ...result, status: 'done' });
+    } catch (error) {
+      if (this.jobs.get(job.id)?.status === 'running') {
+        this.settle(job.id, controller.signal.aborted
+          ? { status: 'cancelled' }
+          : { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      this.controllers.delete(job.id);
+      this.pump();
+    }
+  }
+}
+
+/**
+ * Where each page of the queue is, for the progress display. A page counts
+ * as done only when every job for it is.
+ */
+export function getPageProgress(jobs: GenerationJob[]): PageProgress[] {
+  const pages = new Map<number, GenerationJob[]>();
+  jobs.filter(job => job.status !== 'cancelled').forEach(job => pages.set(job.pageIndex, [...(pages.get(job.pageIndex) ?? []), job]));
+
+  return [...pages.entries()].sort(([a], [b]) => a - b).map(([pageIndex, pageJobs]) => {
+    const running = pageJobs.find(job => job.status === 'running');
+    const queued = pageJobs.filter(job => job.status === 'queued');
+    let state: PageGenerationState = 'done';
+    if (pageJobs.some(job => job.status === 'failed')) state = 'failed';
+    else if (running?.kind === 'persona') state = 'casting';
+    else if (running?.kind === 'beat') state = running.reviewing ? 'reviewing' : 'writing';
+    else if (running) state = 'inking';
+    else if (queued.some(job => job.kind === 'beat' || job.kind === 'persona')) state = 'queued';
+    else if (queued.length > 0) state = 'waiting-ink';
+    return { pageIndex, state, panel: running?.panel, panelCount: running?.panelCount };
+  });
+}
@@ -7,14 +7,17 @@
 import { OpenRouter } from '@openrouter/sdk';
 import {
   Beat,
+  BeatPreview,
   Persona,
   ComicFace,
   StoryConfig,
   World,
-  MAX_STORY_PAGES,
-  LANGUAGES,
   TIMEOUT_CONFIG
 } from '../types';
+import { buildBeatPrompt, buildBeatRepairPrompt, createBeatPreviewer, getBeatCacheKey, getBeatSchema, parseBeatResponse } from './providers/beatPrompt';
+import { createTimeoutSignal } from './providers/timeout';
+import { buildTranslationPrompt, parseTranslationResponse } from './providers/translationPrompt';
+import { getIssueLabel } from '../utils/continuity';
 
 const BASE64_TO_BINARY_RATIO = 0.75;
 
@@ -146,37 +149,6 @@ const getOpenRouterClient = (apiKey?: string) => {
   });
 };
 
-const createTimeoutSignal = (
-  timeoutMs: number,
-  externalSignal?: AbortSignal
-): { signal: AbortSignal; cleanup: () => void } => {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => {
-    controller.abort(new Error(`Operation timed out after ${timeoutMs}ms`));
-  }, timeoutMs);
-
-  const abortHandler = () => {
-    controller.abort(externalSignal?.reason);
-  };
-
-  if (externalSignal) {
-    if (externalSignal.aborted) {
-      controller.abort(externalSignal.reason);
-    } else {
-      externalSignal.addEventListener('abort', abortHandler);
-    }
-  }
-
-  const cleanup = () => {
-    clearTimeout(timeoutId);
-    if (externalSignal) {
-      externalSignal.removeEventListener('abort', abortHandler);
-    }
-  };
-
-  return { signal: controller.signal, cleanup };
-};
-
 export const OpenRouterService = {
   async generatePersona(
     desc: string,
@@ -288,9 +260,11 @@ export const OpenRouterService = {
     friend: Persona | null,
     world: World | null,
     userGuidance?: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onPreview?: (preview: BeatPreview) => void,
+    cacheScope?: string
   ): Promise<Beat> {
-    const cacheKey = !userGuidance ? `beat-${pageNum}-${history.length}-${config.genre}-${config.language}` : null;
+    const cacheKey = getBeatCacheKey(history, pageNum, config, userGuidance, cacheScope);
     
     if (cacheKey) {
       const cached = getCachedBeat(cacheKey);
@@ -299,110 +273,9 @@ export const OpenRouterService = {
       }
     }
 
-    const isFinalPage = pageNum === MAX_STORY_PAGES;
-    const langName = LANGUAGES.find(l => l.code === config.language)?.name || "English";
     const textModel = config.textModel || config.modelPresetModel;
+    const prompt = buildBeatPrompt(history, pageNum, isDecisionPage, config, hero, friend, world, userGuidance);
 
-    const relevantHistory = history
-        .filter(p => p.type === 'story' && p.narrative && (p.pageIndex || 0) < pageNum)
-        .sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0));
-
-    const lastBeat = relevantHistory[relevantHistory.length - 1]?.narrative;
-    const lastFocus = lastBeat?.focus_char || 'none';
-
-    const historyText = relevantHistory.map(p => 
-      `[Page ${p.pageIndex}] [Focus: ${p.narrative?.focus_char}] (Caption: "${p.narrative?.caption || ''}") (Dialogue: "${p.narrative?.dialogue || ''}") (Scene: ${p.narrative?.scene}) ${p.resolvedChoice ? `-> USER CHOICE: "${p.resolvedChoice}"` : ''}`
-    ).join('\n');
-
-    let friendInstruction = "Not yet introduced.";
-    if (friend) {
-        friendInstruction = `ACTIVE. Name: "${friend.name}". ${friend.description}.`;
-        if (lastFocus !== 'friend' && Math.random() > 0.4) {
-             friendInstruction += " MANDATORY: FOCUS ON THE CO-STAR FOR THIS PANEL.";
-        } else {
-             friendInstruction += " Ensure they are woven into the scene even if not the main focus.";
-        }
-    }
-
-    let worldInstruction = "Generic fitting environment.";
-    if (world) {
-        worldInstruction = `SETTING: "${world.name}". LORE: ${world.description}. THE SCENE MUST TAKE PLACE HERE.`;
-    }
-
-    const heroInstruction = `Active. Name: "${hero.name || 'Hero'}". ${hero.description ? `Profile: ${hero.description}` : ''}`;
-
-    let coreDriver = `GENRE: ${config.genre}. TONE: ${config.tone}.`;
-    if (config.genre === 'Custom') {
-        coreDriver = `STORY PREMISE: ${config.customPremise || "A totally unique, unpredictable adventure"}.`;
-    }
-
-    const foundationalPrompt = config.openingPrompt?.trim();
-    
-    let directionInstruction = "";
-    if (userGuidance) {
-        directionInstruction = `
-        CRITICAL - DIRECTIVE FROM THE DIRECTOR:
-        The user explicitly demands the following happens on this page: "${userGuidance}".
-        YOU MUST ADHERE TO THIS DIRECTION ABOVE ALL ELSE. Do not deviate.
-        `;
-    }
-
-    let instruction = `Continue the story. ALL OUTPUT TEXT (Captions, Dialogue, Choices) MUST BE IN ${langName.toUpperCase()}. ${coreDriver}`;
-    if (foundationalPrompt) {
-        instruction += ` HONOR THE ORIGINAL STORY REQUEST: ${foundationalPrompt}.`;
-    }
-    if (config.modelPresetPrompt) {
-        instruction += ` PRESET GUIDANCE: ${config.modelPresetPrompt}`;
-    }
-    if (config.richMode) {
-        instruction += " RICH/NOVEL MODE ENABLED. Prioritize deeper character thoughts, descriptive captions, and meaningful dialogue exchanges over short punchlines.";
-    }
-
-    if (isFinalPage) {
-        instruction += " FINAL PAGE. KARMIC CLIFFHANGER REQUIRED. Text must end with 'TO BE CONTINUED...' (or localized equivalent).";
-    } else if (isDecisionPage) {
-        instruction += " End with a PSYCHOLOGICAL choice about VALUES, RELATIONSHIPS, or RISK. (e.g., Truth vs. Safety, Forgive vs. Avenge). The options must NOT be simple physical actions like 'Go Left'.";
-    } else {
-        if (pageNum === 1) {
-            instruction += " INCITING INCIDENT. An event disrupts the status quo. Establish the genre's intended mood.";
-        }
-    }
-
-    const capLimit = config.richMode ? "max 35 words. Detailed narration" : "max 15 words";
-    const diaLimit = config.richMode ? "max 30 words. Rich, character-driven" : "max 12 words";
-
-    const prompt = `
-You are writing a comic book script. PAGE ${pageNum} of ${MAX_STORY_PAGES}.
-TARGET LANGUAGE FOR TEXT: ${langName} (CRITICAL: CAPTIONS, DIALOGUE, CHOICES MUST BE IN THIS LANGUAGE).
-${coreDriver}
-
-CHARACTERS:
-- HERO: ${heroInstruction}
-- CO-STAR: ${friendInstruction}
-- WORLD/SETTING: ${worldInstruction}
-
-PREVIOUS PANELS (READ CAREFULLY):
-${historyText.length > 0 ? historyText : "Start the adventure."}
-
-${directionInstruction}
-
-RULES:
-1. NO REPETITION. Do not use the same captions or dialogue from previous pages.
-2. IF CO-STAR IS ACTIVE, THEY MUST APPEAR FREQUENTLY.
-3. LANGUAGE: All user-facing text MUST be in ${langName}.
-4. Avoid saying "CO-star" and "hero" in the text captions. Use names if established.
-
-INSTRUCTION: ${instruction}
-
-OUTPUT STRICT JSON ONLY (No markdown formatting):
-{
-  "caption": "Unique narrator text in ${langName}. (${capLimit}).",
-  "dialogue": "Unique speech in ${langName}. (${diaLimit}). Optional.",
-  "scene": "Vivid visual description (ALWAYS IN ENGLISH for the artist model). MUST mention 'HERO' or 'CO-STAR' if they are present. Describe the background based on the WORLD SETTING.",
-  "focus_char": "hero" OR "friend" OR "other",
-  "choices": ["Option A in ${langName}", "Option B in ${langName}"] (Only if decision page)
-}
-`;
     const { signal: timeoutSignal, cleanup } = createTimeoutSignal(
       TIMEOUT_CONFIG.BEAT_GENERATION,
       signal
@@ -418,7 +291,12 @@ OUTPUT STRICT JSON ONLY (No markdown formatting):
         }
 
         const client = getOpenRouterClient();
-        const response = await client.chat.send({
+        // Models without structured output ignore the schema; the reply is validated either way
+        const responseFormat = {
+            type: 'json_schema' as const,
+            jsonSchema: { name: 'comic_beat', schema: { ...getBeatSchema(pageNum, isDecisionPage, config) } },
+        };
+        const stream = await client.chat.send({
             model: textModel,
             messages: [
               {
@@ -426,41 +304,35 @@ OUTPUT STRICT JSON ONLY (No markdown formatting):
                 content: prompt,
               },
             ],
-            stream: false,
-        });
-
-        const elapsed = Date.now() - startTime;
-        console.log(`[OpenRouter Service] Beat generation API call completed in ${elapsed}ms`);
-
-        let rawText = response.choices?.[0]?.message?.content || "{}";
-        rawText = rawText.replace(/```json/g, '').replace(/```/g, '').trim();
-
-        let parsed: Beat;
-
-        try {
-          parsed = JSON.parse(rawText) as Beat;
-          console.log(`[OpenRouter Service] Beat parsed successfully - Focus: ${parsed.focus_char}, Has dialogue: ${!!parsed.dialogue}`);
-        } catch (parseError) {
-          console.error("[OpenRouter Service] Beat parsing failed; using fallback beat", {
-            parseError,
-            rawTextLength: rawText.length
-          });
-          parsed = {
-            scene: "Unexpected twist to keep the story moving forward.",
-            caption: "The story stumbles but keeps going…",
-            dialogue: "We improvise when the script goes missing!",
-            choices: isDecisionPage ? ["Push ahead", "Change course"] : [],
-            focus_char: 'hero'
-          };
+            responseFormat,
+            stream: true,
+        }, { signal: timeoutSignal });
+
+        // Streamed so the caption and dialogue can be previewed while the rest is written
+        const preview = createBeatPreviewer(onPreview);
+        let streamedText = '';
+        for await (const chunk of stream) {
+          streamedText += chunk.choices[0]?.delta?.content ?? '';
+          preview(streamedText);
         }
 
-        if (parsed.dialogue) parsed.dialogue = parsed.dialogue.replace(/^[\w\s\-]+:\s*/i, '').replace(/["']/g, '').trim();
-        if (parsed.caption) parsed.caption = parsed.caption.replace(/^[\w\s\-]+:\s*/i, '').trim();
-        if (!isDecisionPage) parsed.choices = [];
-        if (isDecisionPage && !isFinalPage && (!parsed.choices || parsed.choices.length < 2)) parsed.choices = ["Option A", "Option B"];
-        if (!['hero', 'friend', 'other'].includes(parsed.focus_char)) parsed.focus_char = 'hero';
+        const elapsed = Date.now() - startTime;
+        console.log(`[OpenRouter Service] Beat generation stream completed in ${elapsed}ms`);
+
+        // A stream cut off mid-JSON is repaired or falls back like any invalid beat
+        const parsed = await parseBeatResponse(streamedText || "{}", pageNum, isDecisionPage, config, 'OpenRouter Service', async (errors, rejected) => {
+          const response = await client.chat.send({
+              model: textModel,
+              messages: [{ role: 'user', content: buildBeatRepairPrompt(prompt, rejected, errors) }],
+              responseFormat,
+              stream: false,
+          }, { signal: timeoutSignal });
+          const content = response.choices?.[0]?.message?.content;
+          return typeof content === 'string' ? content : "{}";
+        });
 
-        if (cacheKey) {
+        // A stand-in is worth another try next time
+        if (cacheKey && !parsed.fallback) {
           setCachedBeat(cacheKey, parsed);
           console.log(`[OpenRouter Service] Beat cached with key: ${cacheKey}`);
         }
@@ -475,6 +347,41 @@ OUTPUT STRICT JSON ONLY (No markdown formatting):
     }
   },
 
+  async translateTexts(
+    texts: string[],
+    language: string,
+    config: StoryConfig,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const textModel = config.textModel || config.modelPresetModel;
+    const { signal: timeoutSignal, cleanup } = createTimeoutSignal(
+      TIMEOUT_CONFIG.BEAT_GENERATION,
+      signal
+    );
+
+    const startTime = Date.now();
+    console.log(`[OpenRouter Service] Starting translation - ${texts.length} strings to ${language}, Model: ${textModel}`);
+
+    try {
+        if (timeoutSignal.aborted) {
+          throw timeoutSignal.reason || new Error('Operation aborted');
+        }
+
+        const client = getOpenRouterClient();
+        const response = await client.chat.send({
+            model: textModel,
+            messages: [{ role: 'user', content: buildTranslationPrompt(texts, language) }],
+            stream: false,
+        });
+
+        console.log(`[OpenRouter Service] Translation completed in ${Date.now() - startTime}ms`);
+        const content = response.choices?.[0]?.message?.content;
+        return parseTranslationResponse(typeof content === 'string' ? content : '', texts.length, 'OpenRouter Service');
+    } finally {
+        cleanup();
+    }
+  },
+
   async generateImage(
     beat: Beat,
     type: ComicFace['type'],
@@ -514,8 +421,11 @@ OUTPUT STRICT JSON ONLY (No markdown formatting):
       const styleEra = config.genre === 'Custom' ? "Modern American" : config.genre;
       let promptText = `${styleEra} comic book art, detailed ink, vibrant colors. `;
       
+      const coverTitle = config.continuity ? getIssueLabel(config.continuity).toUpperCase() : "INFINITE HEROES";
+      const nextIssueText = config.continuity ? `NEXT: ISSUE #${config.continuity.issueNumber + 1}` : "NEXT ISSUE SOON";
+
       if (type === 'cover') {
-        promptText += `Comic book cover with dynamic action shot. Title "INFINITE HEROES" at top. Epic superhero composition.`;
+        promptText += `Comic book cover with dynamic action shot. Title "${coverTitle}" at top. Epic superhero composition.`;
         if (hero.description) {
           promptText += ` Main character: ${hero.description}.`;
         }
@@ -523,7 +433,7 @@ OUTPUT STRICT JSON ONLY (No markdown formatting):
           promptText += ` Setting: ${world.name} - ${world.description}.`;
         }
       } else if (type === 'back_cover') {
-        promptText += `Comic book back cover. Full page vertical art. Dramatic teaser image. Text "NEXT ISSUE SOON".`;
+        promptText += `Comic book back cover. Full page vertical art. Dramatic teaser image. Text "${nextIssueText}".`;
       } else {
         // Story panel
         promptText += `Vertical comic panel. ${beat.scene}.`;
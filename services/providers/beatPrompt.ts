@@ -0,0 +1,332 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BeatFieldError, buildBeatSchema, formatBeatErrors, JsonSchema, validateBeat } from './beatSchema';
+import {
+  Beat,
+  BeatPreview,
+  Persona,
+  ComicFace,
+  StoryConfig,
+  World,
+  LANGUAGES
+} from '../../types';
+import { describeContinuity } from '../../utils/continuity';
+import { getIssueLayout } from '../../utils/issueLayout';
+import { describePanelLayout, getPageLayout } from '../../utils/pageLayouts';
+
+/**
+ * Builds the comic-script prompt for one story page. Shared by every text
+ * backend that can follow free-form JSON instructions.
+ */
+export const buildBeatPrompt = (
+  history: ComicFace[],
+  pageNum: number,
+  isDecisionPage: boolean,
+  config: StoryConfig,
+  hero: Persona,
+  friend: Persona | null,
+  world: World | null,
+  userGuidance?: string
+): string => {
+  const { storyPages } = getIssueLayout(config);
+  const isFinalPage = pageNum === storyPages;
+  const langName = LANGUAGES.find(l => l.code === config.language)?.name || "English";
+
+  // Get relevant history
+  const relevantHistory = history
+      .filter(p => p.type === 'story' && p.narrative && (p.pageIndex || 0) < pageNum)
+      .sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0));
+
+  const lastBeat = relevantHistory[relevantHistory.length - 1]?.narrative;
+  const lastFocus = lastBeat?.focus_char || 'none';
+
+  const historyText = relevantHistory.map(p => 
+    `[Page ${p.pageIndex}] [Focus: ${p.narrative?.focus_char}] (Caption: "${p.narrative?.caption || ''}") (Dialogue: "${p.narrative?.dialogue || ''}") (Scene: ${p.narrative?.scene}) ${p.resolvedChoice ? `-> USER CHOICE: "${p.resolvedChoice}"` : ''}`
+  ).join('\n');
+
+  // Aggressive Co-Star Injection Logic
+  let friendInstruction = "Not yet introduced.";
+  if (friend) {
+      friendInstruction = `ACTIVE. Name: "${friend.name}". ${friend.description}.`;
+      if (lastFocus !== 'friend' && Math.random() > 0.4) {
+           friendInstruction += " MANDATORY: FOCUS ON THE CO-STAR FOR THIS PANEL.";
+      } else {
+           friendInstruction += " Ensure they are woven into the scene even if not the main focus.";
+      }
+  }
+
+  // World Injection Logic
+  let worldInstruction = "Generic fitting environment.";
+  if (world) {
+      worldInstruction = `SETTING: "${world.name}". LORE: ${world.description}. THE SCENE MUST TAKE PLACE HERE.`;
+  }
+
+  // Hero Definition
+  const heroInstruction = `Active. Name: "${hero.name || 'Hero'}". ${hero.description ? `Profile: ${hero.description}` : ''}`;
+
+  // Determine Core Story Driver
+  let coreDriver = `GENRE: ${config.genre}. TONE: ${config.tone}.`;
+  if (config.genre === 'Custom') {
+      coreDriver = `STORY PREMISE: ${config.customPremise || "A totally unique, unpredictable adventure"}.`;
+  }
+
+  const foundationalPrompt = config.openingPrompt?.trim();
+  
+  // User Guidance - The most important input
+  let directionInstruction = "";
+  if (userGuidance) {
+      directionInstruction = `
+      CRITICAL - DIRECTIVE FROM THE DIRECTOR:
+      The user explicitly demands the following happens on this page: "${userGuidance}".
+      YOU MUST ADHERE TO THIS DIRECTION ABOVE ALL ELSE. Do not deviate.
+      `;
+  }
+
+  // Series Continuity (follow-up issues only)
+  const continuityText = describeContinuity(config.continuity, pageNum);
+
+  // Base Instruction
+  let instruction = `Continue the story. ALL OUTPUT TEXT (Captions, Dialogue, Choices) MUST BE IN ${langName.toUpperCase()}. ${coreDriver}`;
+  if (foundationalPrompt) {
+      instruction += ` HONOR THE ORIGINAL STORY REQUEST: ${foundationalPrompt}.`;
+  }
+  if (config.modelPresetPrompt) {
+      instruction += ` PRESET GUIDANCE: ${config.modelPresetPrompt}`;
+  }
+  if (config.richMode) {
+      instruction += " RICH/NOVEL MODE ENABLED. Prioritize deeper character thoughts, descriptive captions, and meaningful dialogue exchanges over short punchlines.";
+  }
+
+  if (isFinalPage) {
+      instruction += " FINAL PAGE. KARMIC CLIFFHANGER REQUIRED. Text must end with 'TO BE CONTINUED...' (or localized equivalent).";
+  } else if (isDecisionPage) {
+      instruction += " End with a PSYCHOLOGICAL choice about VALUES, RELATIONSHIPS, or RISK. (e.g., Truth vs. Safety, Forgive vs. Avenge). The options must NOT be simple physical actions like 'Go Left'.";
+  } else {
+      if (pageNum === 1 && !continuityText) {
+          instruction += " INCITING INCIDENT. An event disrupts the status quo. Establish the genre's intended mood.";
+      }
+  }
+
+  const capLimit = config.richMode ? "max 35 words. Detailed narration" : "max 15 words";
+  const diaLimit = config.richMode ? "max 30 words. Rich, character-driven" : "max 12 words";
+
+  return `
+You are writing a comic book script. PAGE ${pageNum} of ${storyPages}.
+TARGET LANGUAGE FOR TEXT: ${langName} (CRITICAL: CAPTIONS, DIALOGUE, CHOICES MUST BE IN THIS LANGUAGE).
+${coreDriver}
+
+CHARACTERS:
+- HERO: ${heroInstruction}
+- CO-STAR: ${friendInstruction}
+- WORLD/SETTING: ${worldInstruction}
+${continuityText}
+PREVIOUS PANELS (READ CAREFULLY):
+${historyText.length > 0 ? historyText : "Start the adventure."}
+
+${directionInstruction}
+
+RULES:
+1. NO REPETITION. Do not use the same captions or dialogue from previous pages.
+2. IF CO-STAR IS ACTIVE, THEY MUST APPEAR FREQUENTLY.
+3. LANGUAGE: All user-facing text MUST be in ${langName}.
+4. Avoid saying "CO-star" and "hero" in the text captions. Use names if established.
+
+INSTRUCTION: ${instruction}
+${describePanelLayout(config, langName)}
+OUTPUT STRICT JSON ONLY (No markdown formatting):
+{
+  "caption": "Unique narrator text in ${langName}. (${capLimit}).",
+  "dialogue": "Unique speech in ${langName}. (${diaLimit}). Optional.",
+  "scene": "Vivid visual description (ALWAYS IN ENGLISH for the artist model). MUST mention 'HERO' or 'CO-STAR' if they are present. Describe the background based on the WORLD SETTING.",
+  "focus_char": "hero" OR "friend" OR "other",
+  "choices": ["Option A in ${langName}", "Option B in ${langName}"] (Only if decision page)
+}
+`;
+};
+
+// Enough of a rejected reply for the model to see what it wrote
+const MAX_REJECTED_LENGTH = 4000;
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+// A string value read from JSON that may stop anywhere, up to its closing quote or the end of the text
+const readPartialString = (text: string, key: string): string | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+  if (!match) return undefined;
+
+  let value = '';
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+    // An escape split across chunks is picked up with the next one
+    const next = text.charAt(i + 1);
+    if (!next) break;
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (!/^[0-9a-f]{4}$/i.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += JSON_ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+};
+
+/**
+ * Reads the caption and dialogue out of beat JSON that is still streaming in,
+ * e.g. `{"caption": "The city slee` gives `{ caption: 'The city slee' }`.
+ */
+export const parsePartialBeat = (text: string): BeatPreview => {
+  const preview: BeatPreview = {};
+  const caption = readPartialString(text, 'caption');
+  const dialogue = readPartialString(text, 'dialogue');
+  if (caption) preview.caption = caption;
+  if (dialogue) preview.dialogue = dialogue;
+  return preview;
+};
+
+/**
+ * Feeds the text of a streaming beat to `onPreview` as it grows, only when
+ * the caption or dialogue read from it has changed.
+ */
+export const createBeatPreviewer = (onPreview?: (preview: BeatPreview) => void) => {
+  let last = '';
+  return (text: string) => {
+    if (!onPreview) return;
+    const preview = parsePartialBeat(text);
+    const key = JSON.stringify(preview);
+    if (key === last) return;
+    last = key;
+    onPreview(preview);
+  };
+};
+
+/**
+ * The schema a beat for this page has to meet; sent to models that support
+ * structured output and checked on every reply.
+ */
+export const getBeatSchema = (pageNum: number, isDecisionPage: boolean, config: StoryConfig): JsonSchema =>
+  buildBeatSchema({
+    needsChoices: isDecisionPage && pageNum !== getIssueLayout(config).storyPages,
+    panelCount: getPageLayout(config).frames.length,
+  });
+
+// Short digest for cache keys; not meant to be collision-proof
+const hashText = (text: string): string => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(31, hash) + text.charCodeAt(i) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Cache key for a beat, or null when it must not be cached: beats written
+ * with user guidance, after a hand edit or without a cache scope (the branch
+ * the beat is written for). The history fingerprint keeps a rewritten page
+ * or another choice from getting beats written for the old story.
+ */
+export const getBeatCacheKey = (
+  history: ComicFace[],
+  pageNum: number,
+  config: StoryConfig,
+  userGuidance?: string,
+  cacheScope?: string
+): string | null => {
+  if (!cacheScope || userGuidance || history.some(face => face.narrative?.edited)) return null;
+  const fingerprint = hashText(history
+    .filter(face => face.type === 'story' && (face.pageIndex || 0) < pageNum)
+    .map(face => `${face.pageIndex}|${face.resolvedChoice ?? ''}|${face.narrative?.scene ?? ''}`)
+    .join('\n'));
+  return `beat-${pageNum}-${history.length}-${config.genre}-${config.language}-${config.continuity?.seriesId ?? 'standalone'}-${config.continuity?.issueNumber ?? 1}-of${getIssueLayout(config).storyPages}-${getPageLayout(config).id}-${cacheScope}-${fingerprint}`;
+};
+
+/**
+ * Asks the model to fix its own reply: the original prompt, the rejected
+ * output and what was wrong with each field.
+ */
+export const buildBeatRepairPrompt = (prompt: string, rejected: string, errors: BeatFieldError[]): string => `${prompt}
+YOUR PREVIOUS REPLY WAS REJECTED:
+${rejected.slice(0, MAX_REJECTED_LENGTH) || '(empty)'}
+
+PROBLEMS:
+${errors.map(error => `- ${error.path} ${error.message}`).join('\n')}
+
+Reply again with the corrected JSON only. Fix every problem listed and keep the story content that was fine.
+`;
+
+// Parses and validates one reply; broken JSON is reported like any other field error
+const checkBeatResponse = (text: string, schema: JsonSchema): { value: unknown; errors: BeatFieldError[] } => {
+  const rawText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  try {
+    const value: unknown = JSON.parse(rawText);
+    return { value, errors: validateBeat(value, schema) };
+  } catch {
+    // The parser's own message quotes the reply, which stays out of the logs
+    return { value: undefined, errors: [{ path: 'beat', message: 'is not valid JSON, or was cut off' }] };
+  }
+};
+
+/**
+ * Parses a model's beat JSON and checks it against the page's schema. A reply
+ * that fails gets one `repair` round trip with the field errors; if that fails
+ * too, a placeholder beat marked as `fallback` keeps the story going. Fields
+ * the renderer depends on are normalized either way.
+ */
+export const parseBeatResponse = async (
+  text: string,
+  pageNum: number,
+  isDecisionPage: boolean,
+  config: StoryConfig,
+  logTag: string,
+  repair?: (errors: BeatFieldError[], rejected: string) => Promise<string>
+): Promise<Beat> => {
+  const isFinalPage = pageNum === getIssueLayout(config).storyPages;
+  const schema = getBeatSchema(pageNum, isDecisionPage, config);
+
+  let reply = checkBeatResponse(text, schema);
+  // Note: we intentionally avoid logging the reply/story content here to protect user privacy.
+  // Field paths, error messages and the reply length are sufficient for debugging.
+  if (reply.errors.length > 0 && repair) {
+    console.warn(`[${logTag}] Beat failed validation; asking for a repair`, { errors: formatBeatErrors(reply.errors), rawTextLength: text.length });
+    try {
+      reply = checkBeatResponse(await repair(reply.errors, text), schema);
+    } catch (repairError) {
+      console.error(`[${logTag}] Beat repair request failed`, repairError);
+    }
+  }
+
+  let parsed: Beat;
+  if (reply.errors.length === 0) {
+    parsed = reply.value as Beat;
+    console.log(`[${logTag}] Beat parsed successfully - Focus: ${parsed.focus_char}, Has dialogue: ${!!parsed.dialogue}`);
+  } else {
+    console.error(`[${logTag}] Beat validation failed; using fallback beat`, { errors: formatBeatErrors(reply.errors) });
+    parsed = {
+      scene: "Unexpected twist to keep the story moving forward.",
+      caption: "The story stumbles but keeps going…",
+      dialogue: "We improvise when the script goes missing!",
+      choices: isDecisionPage ? ["Push ahead", "Change course"] : [],
+      focus_char: 'hero',
+      fallback: true
+    };
+  }
+
+  if (parsed.dialogue) parsed.dialogue = parsed.dialogue.replace(/^[\w\s\-]+:\s*/i, '').replace(/["']/g, '').trim();
+  if (parsed.caption) parsed.caption = parsed.caption.replace(/^[\w\s\-]+:\s*/i, '').trim();
+  if (!isDecisionPage) parsed.choices = [];
+  if (isDecisionPage && !isFinalPage && (!parsed.choices || parsed.choices.length < 2)) parsed.choices = ["Option A", "Option B"];
+  if (!['hero', 'friend', 'other'].includes(parsed.focus_char)) parsed.focus_char = 'hero';
+  if (parsed.panels && !Array.isArray(parsed.panels)) delete parsed.panels;
+
+  return parsed;
+};
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema, Type } from '@google/genai';
+
+/**
+ * The subset of JSON Schema used to describe a beat. OpenRouter takes it as
+ * is; Gemini gets it through `toGeminiSchema`.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface BeatSchemaOptions {
+  needsChoices: boolean; // Decision pages other than the last one
+  panelCount: number;    // Frames of the page layout; a single frame has no panels array
+}
+
+// A field of the model's beat that failed validation, e.g. `panels[1].scene`
+export interface BeatFieldError {
+  path: string;
+  message: string;
+}
+
+const FOCUS_CHARS = ['hero', 'friend', 'other'];
+
+const panelSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    caption: { type: 'string' },
+    dialogue: { type: 'string' },
+    scene: { type: 'string', description: 'In English, framed for its panel shape' },
+    focus_char: { type: 'string', enum: FOCUS_CHARS },
+  },
+  required: ['scene', 'focus_char'],
+};
+
+/**
+ * The beat the prompt asks for, tightened per page: choices are required on
+ * decision pages and the panels array has to match the layout. Anything the
+ * beat normalization fixes anyway, like stray choices, is left loose so it
+ * never costs a repair.
+ */
+export const buildBeatSchema = ({ needsChoices, panelCount }: BeatSchemaOptions): JsonSchema => {
+  // Caption and dialogue come first so the live preview has something to show early
+  const properties: Record<string, JsonSchema> = {
+    caption: { type: 'string', description: 'Narrator text' },
+    dialogue: { type: 'string', description: 'Speech, without the speaker name' },
+    scene: { type: 'string', description: 'Visual description in English for the artist' },
+    focus_char: { type: 'string', enum: FOCUS_CHARS },
+    choices: needsChoices ? { type: 'array', items: { type: 'string' }, minItems: 2 } : { type: 'array', items: { type: 'string' } },
+  };
+  const required = needsChoices ? ['scene', 'focus_char', 'choices'] : ['scene', 'focus_char'];
+  if (panelCount > 1) {
+    properties['panels'] = { type: 'array', items: panelSchema, minItems: panelCount, maxItems: panelCount };
+    required.push('panels');
+  }
+  return { type: 'object', properties, required };
+};
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+};
+
+/**
+ * Gemini's `responseSchema` dialect: upper-case types, counts as strings and
+ * an explicit property order, which keeps the caption streaming in first.
+ */
+export const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  minItems: schema.minItems === undefined ? undefined : String(schema.minItems),
+  maxItems: schema.maxItems === undefined ? undefined : String(schema.maxItems),
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties && Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+  propertyOrdering: schema.properties && Object.keys(schema.properties),
+});
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+};
+
+const validateValue = (value: unknown, schema: JsonSchema, path: string, errors: BeatFieldError[]) => {
+  const at = path || 'beat';
+  if (schema.type === 'string') {
+    if (typeof value !== 'string') errors.push({ path: at, message: `must be a string, got ${describeValue(value)}` });
+    else if (schema.enum && !schema.enum.includes(value)) errors.push({ path: at, message: `must be one of ${schema.enum.map(option => `"${option}"`).join(', ')}, got "${value}"` });
+    return;
+  }
+
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) {
+      errors.push({ path: at, message: `must be an array, got ${describeValue(value)}` });
+      return;
+    }
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push({ path: at, message: `needs at least ${schema.minItems} items, got ${value.length}` });
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push({ path: at, message: `allows at most ${schema.maxItems} items, got ${value.length}` });
+    const items = schema.items;
+    if (items) value.forEach((item, i) => validateValue(item, items, `${path}[${i}]`, errors));
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push({ path: at, message: `must be an object, got ${describeValue(value)}` });
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  schema.required?.filter(key => record[key] === undefined).forEach(key => errors.push({ path: path ? `${path}.${key}` : key, message: 'is required' }));
+  Object.entries(schema.properties ?? {}).forEach(([key, childSchema]) => {
+    const child = record[key];
+    // Optional fields left out or set to null are fine; required ones were reported above
+    if (child === undefined || (child === null && !schema.required?.includes(key))) return;
+    validateValue(child, childSchema, path ? `${path}.${key}` : key, errors);
+  });
+};
+
+/**
+ * Checks parsed model output against the beat schema. Returns one error per
+ * offending field, or none when the beat can be used as is.
+ */
+export const validateBeat = (value: unknown, schema: JsonSchema): BeatFieldError[] => {
+  const errors: BeatFieldError[] = [];
+  validateValue(value, schema, '', errors);
+  return errors;
+};
+
+export const formatBeatErrors = (errors: BeatFieldError[]): string =>
+  errors.map(error => `${error.path} ${error.message}`).join('; ');
@@ -0,0 +1,412 @@
+
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI } from '@google/genai';
+import { buildBeatPrompt, buildBeatRepairPrompt, createBeatPreviewer, getBeatCacheKey, getBeatSchema, parseBeatResponse } from './beatPrompt';
+import { toGeminiSchema } from './beatSchema';
+import { createTimeoutSignal } from './timeout';
+import { buildTranslationPrompt, parseTranslationResponse } from './translationPrompt';
+import { ComicProvider } from './types';
+import {
+  Beat,
+  BeatPreview,
+  Persona,
+  ComicFace,
+  StoryConfig,
+  World,
+  LANGUAGES,
+  TIMEOUT_CONFIG
+} from '../../types';
+import { getIssueLabel } from '../../utils/continuity';
+import { retryWithBackoff } from '../../utils/performanceUtils';
+
+const MODEL_IMAGE_GEN_NAME = "gemini-3-pro-image-preview";
+const MODEL_TEXT_NAME = "gemini-3-flash-preview";
+
+// Base64 encoding adds ~33% overhead (4 bytes for every 3 bytes of data)
+// So to estimate binary size from base64: multiply by 0.75 (or 3/4)
+const BASE64_TO_BINARY_RATIO = 0.75;
+
+// True LRU cache for beat generation to avoid regenerating same content
+const beatCache = new Map<string, { beat: Beat; timestamp: number }>();
+const BEAT_CACHE_MAX_SIZE = 20;
+const BEAT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+const getCachedBeat = (key: string): Beat | null => {
+  const cached = beatCache.get(key);
+  if (!cached) return null;
+  
+  // Check if cache is still valid
+  if (Date.now() - cached.timestamp > BEAT_CACHE_TTL) {
+    beatCache.delete(key);
+    return null;
+  }
+  
+  // Move to end for LRU (re-insert)
+  beatCache.delete(key);
+  beatCache.set(key, cached);
+  
+  return cached.beat;
+};
+
+const setCachedBeat = (key: string, beat: Beat): void => {
+  // True LRU: if at max capacity, remove least recently used (first entry) before adding
+  if (beatCache.size >= BEAT_CACHE_MAX_SIZE) {
+    const firstKey = beatCache.keys().next().value;
+    if (firstKey) beatCache.delete(firstKey);
+  }
+  
+  // Add new entry at the end (most recently used)
+  beatCache.set(key, { beat, timestamp: Date.now() });
+};
+
+const GEMINI_KEY_STORAGE = 'userApiKey';
+
+const getAI = () => {
+  if (!navigator.onLine) {
+    console.error("[Gemini Provider] Network is offline");
+    throw new Error("OFFLINE: Please check your internet connection.");
+  }
+  const storedKey = typeof localStorage !== 'undefined' ? localStorage.getItem(GEMINI_KEY_STORAGE) : undefined;
+  const apiKey = storedKey || process.env.API_KEY;
+
+  if (!apiKey) {
+    console.error("[Gemini Provider] No API key found in localStorage or environment");
+    throw new Error("API_KEY_INVALID");
+  }
+  
+  console.log("[Gemini Provider] API initialized successfully");
+  return new GoogleGenAI({ apiKey });
+};
+
+export const geminiProvider: ComicProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  capabilities: ['text', 'image'],
+  apiKeyStorageKey: GEMINI_KEY_STORAGE,
+
+  async generatePersona(
+    desc: string,
+    genre: string,
+    _config: StoryConfig,
+    signal?: AbortSignal
+  ): Promise<Persona> {
+    const style = genre === 'Custom' ? "Modern American comic book art" : `${genre} comic`;
+    const startTime = Date.now();
+    
+    console.log(`[Gemini Provider] Starting persona generation - Genre: ${genre}, Description: ${desc}`);
+    
+    const ai = getAI();
+
+    // Create timeout signal
+    const { signal: timeoutSignal, cleanup } = createTimeoutSignal(
+      TIMEOUT_CONFIG.PERSONA_GENERATION,
+      signal
+    );
+
+    try {
+      // Check if already aborted
+      if (timeoutSignal.aborted) {
+        console.warn("[Gemini Provider] Persona generation aborted before API call");
+        throw timeoutSignal.reason || new Error('Operation aborted');
+      }
+
+      console.log(`[Gemini Provider] Calling Gemini API - Model: ${MODEL_IMAGE_GEN_NAME}, Timeout: ${TIMEOUT_CONFIG.PERSONA_GENERATION}ms`);
+      
+      const res = await ai.models.generateContent({
+        model: MODEL_IMAGE_GEN_NAME,
+        contents: { text: `STYLE: Masterpiece ${style} character sheet, detailed ink, neutral background. FULL BODY. Character: ${desc}` },
+        config: { imageConfig: { aspectRatio: '1:1' } }
+      });
+
+      const elapsed = Date.now() - startTime;
+      console.log(`[Gemini Provider] Persona generation completed in ${elapsed}ms`);
+
+      const part = res.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+      if (part?.inlineData?.data) {
+        const sizeKB = Math.round(part.inlineData.data.length * BASE64_TO_BINARY_RATIO / 1024);
+        console.log(`[Gemini Provider] Persona image generated successfully - Size: ~${sizeKB}KB`);
+        return { base64: part.inlineData.data, name: "Sidekick", description: desc };
+      }
+      
+      console.error("[Gemini Provider] No image data in API response", { candidates: res.candidates });
+      throw new Error("Failed to generate persona image");
+    } catch (error) {
+      const elapsed = Date.now() - startTime;
+      console.error(`[Gemini Provider] Persona generation failed after ${elapsed}ms`, error);
+      throw error;
+    } finally {
+      cleanup();
+    }
+  },
+
+  async generateBeat(
+    history: ComicFace[],
+    pageNum: number,
+    isDecisionPage: boolean,
+    config: StoryConfig,
+    hero: Persona,
+    friend: Persona | null,
+    world: World | null,
+    userGuidance?: string, // Direct user control
+    signal?: AbortSignal, // AbortSignal for cancellation/timeout
+    onPreview?: (preview: BeatPreview) => void,
+    cacheScope?: string
+  ): Promise<Beat> {
+    const cacheKey = getBeatCacheKey(history, pageNum, config, userGuidance, cacheScope);
+    
+    // Check cache first
+    if (cacheKey) {
+      const cached = getCachedBeat(cacheKey);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const textModel = config.modelPresetModel || MODEL_TEXT_NAME;
+    const prompt = buildBeatPrompt(history, pageNum, isDecisionPage, config, hero, friend, world, userGuidance);
+
+    // Create timeout signal
+    const { signal: timeoutSignal, cleanup } = createTimeoutSignal(
+      TIMEOUT_CONFIG.BEAT_GENERATION,
+      signal
+    );
+
+    const startTime = Date.now();
+    console.log(`[Gemini Provider] Starting beat generation - Page: ${pageNum}, Model: ${textModel}, Has guidance: ${!!userGuidance}`);
+
+    try {
+        // Check if already aborted
+        if (timeoutSignal.aborted) {
+          console.warn("[Gemini Provider] Beat generation aborted before API call");
+          throw timeoutSignal.reason || new Error('Operation aborted');
+        }
+
+        const ai = getAI();
+        const responseSchema = toGeminiSchema(getBeatSchema(pageNum, isDecisionPage, config));
+        const stream = await ai.models.generateContentStream({
+            model: textModel,
+            contents: prompt,
+            config: { responseMimeType: 'application/json', responseSchema, abortSignal: timeoutSignal }
+        });
+
+        // Streamed so the caption and dialogue can be previewed while the rest is written
+        const preview = createBeatPreviewer(onPreview);
+        let text = '';
+        for await (const chunk of stream) {
+          text += chunk.text ?? '';
+          preview(text);
+        }
+
+        const elapsed = Date.now() - startTime;
+        console.log(`[Gemini Provider] Beat generation stream completed in ${elapsed}ms`);
+
+        // A stream cut off mid-JSON is repaired or falls back like any invalid beat
+        const parsed = await parseBeatResponse(text || "{}", pageNum, isDecisionPage, config, 'Gemini Provider', async (errors, rejected) => {
+          const res = await ai.models.generateContent({
+            model: textModel,
+            contents: buildBeatRepairPrompt(prompt, rejected, errors),
+            config: { responseMimeType: 'application/json', responseSchema, abortSignal: timeoutSignal }
+          });
+          return res.text || "{}";
+        });
+
+        // Cache the result if applicable; a stand-in is worth another try next time
+        if (cacheKey && !parsed.fallback) {
+          setCachedBeat(cacheKey, parsed);
+          console.log(`[Gemini Provider] Beat cached with key: ${cacheKey}`);
+        }
+
+        return parsed;
+    } catch (e) {
+        const elapsed = Date.now() - startTime;
+        console.error(`[Gemini Provider] Beat generation failed after ${elapsed}ms`, e);
+        throw e;
+    } finally {
+        cleanup();
+    }
+  },
+
+  async generateImage(
+    beat: Beat,
+    type: ComicFace['type'],
+    config: StoryConfig,
+    hero: Persona,
+    friend: Persona | null,
+    world: World | null,
+    signal?: AbortSignal // AbortSignal for cancellation/timeout
+  ): Promise<string> {
+    const startTime = Date.now();
+    
+    return retryWithBackoff(
+      async () => {
+        const contents: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
+        
+        // 1. Hero References (multiple images if available)
+        if (hero?.images && hero.images.length > 0) {
+            // Use all available hero images for better character consistency
+            hero.images.forEach((img, i) => {
+                contents.push({ text: `REFERENCE [HERO ${i === 0 ? 'PRIMARY' : `ANGLE ${i}`}]:` });
+                contents.push({ inlineData: { mimeType: 'image/jpeg', data: img } });
+            });
+        } else if (hero?.base64) {
+            // Fallback for backward compatibility
+            contents.push({ text: "REFERENCE [HERO]:" });
+            contents.push({ inlineData: { mimeType: 'image/jpeg', data: hero.base64 } });
+        }
+        
+        // 2. Co-Star References (multiple images if available)
+        if (friend?.images && friend.images.length > 0) {
+            // Use all available co-star images for better character consistency
+            friend.images.forEach((img, i) => {
+                contents.push({ text: `REFERENCE [CO-STAR ${i === 0 ? 'PRIMARY' : `ANGLE ${i}`}]:` });
+                contents.push({ inlineData: { mimeType: 'image/jpeg', data: img } });
+            });
+        } else if (friend?.base64) {
+            // Fallback for backward compatibility
+            contents.push({ text: "REFERENCE [CO-STAR]:" });
+            contents.push({ inlineData: { mimeType: 'image/jpeg', data: friend.base64 } });
+        }
+        
+        // 3. World References (Max 3)
+        if (world?.images && world.images.length > 0) {
+            world.images.forEach((img, i) => {
+                contents.push({ text: `REFERENCE [WORLD ENVIRONMENT ${i+1}]:` });
+                contents.push({ inlineData: { mimeType: 'image/jpeg', data: img } });
+            });
+        }
+
+        const styleEra = config.genre === 'Custom' ? "Modern American" : config.genre;
+        let promptText = `STYLE: ${styleEra} comic book art, detailed ink, vibrant colors. `;
+        
+        const coverTitle = config.continuity ? getIssueLabel(config.continuity).toUpperCase() : "INFINITE HEROES";
+        const nextIssueText = config.continuity ? `NEXT: ISSUE #${config.continuity.issueNumber + 1}` : "NEXT ISSUE SOON";
+
+        if (type === 'cover') {
+            const langName = LANGUAGES.find(l => l.code === config.language)?.name || "English";
+            promptText += `TYPE: Comic Book Cover. TITLE: "${coverTitle}" (OR LOCALIZED TRANSLATION IN ${langName.toUpperCase()}). Main visual: Dynamic action shot of [HERO] (Use ALL REFERENCE [HERO] images to ensure character consistency).`;
+            if (world) {
+                promptText += ` BACKGROUND: Must match REFERENCE [WORLD ENVIRONMENT] strictly. Setting: ${world.name}.`;
+            }
+        } else if (type === 'back_cover') {
+            promptText += `TYPE: Comic Back Cover. FULL PAGE VERTICAL ART. Dramatic teaser. Text: "${nextIssueText}".`;
+        } else {
+            promptText += `TYPE: Vertical comic panel. SCENE: ${beat.scene}. `;
+            promptText += `INSTRUCTIONS: Maintain strict character likeness using ALL provided reference images. If scene mentions 'HERO', you MUST use ALL REFERENCE [HERO] images. If scene mentions 'CO-STAR' or 'SIDEKICK', you MUST use ALL REFERENCE [CO-STAR] images.`;
+            if (world) {
+                promptText += ` BACKGROUND: Must match REFERENCE [WORLD ENVIRONMENT] aesthetic. Setting: ${world.name}.`;
+            }
+            if (beat.caption) promptText += ` INCLUDE CAPTION BOX: "${beat.caption}"`;
+            if (beat.dialogue) promptText += ` INCLUDE SPEECH BUBBLE: "${beat.dialogue}"`;
+        }
+
+        contents.push({ text: promptText });
+
+        // Create timeout signal
+        const { signal: timeoutSignal, cleanup } = createTimeoutSignal(
+          TIMEOUT_CONFIG.IMAGE_GENERATION,
+          signal
+        );
+
+        const refCount = contents.filter(c => c.inlineData).length;
+        console.log(`[Gemini Provider] Starting image generation - Type: ${type}, References: ${refCount}, Model: ${MODEL_IMAGE_GEN_NAME}`);
+
+        try {
+            // Check if already aborted
+            if (timeoutSignal.aborted) {
+              console.warn("[Gemini Provider] Image generation aborted before API call");
+              throw timeoutSignal.reason || new Error('Operation aborted');
+            }
+
+            const ai = getAI();
+            const res = await ai.models.generateContent({
+              model: MODEL_IMAGE_GEN_NAME,
+              contents: contents,
+              config: { imageConfig: { aspectRatio: '2:3' } }
+            });
+            
+            const elapsed = Date.now() - startTime;
+            console.log(`[Gemini Provider] Image generation API call completed in ${elapsed}ms`);
+            
+            const part = res.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+            if (part?.inlineData?.data) {
+              const sizeKB = Math.round(part.inlineData.data.length * BASE64_TO_BINARY_RATIO / 1024);
+              console.log(`[Gemini Provider] Image generated successfully - Size: ~${sizeKB}KB`);
+              return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+            }
+            
+            console.error("[Gemini Provider] No image data in API response", { candidates: res.candidates });
+            return '';
+        } catch (e) {
+            const elapsed = Date.now() - startTime;
+            console.error(`[Gemini Provider] Image generation failed after ${elapsed}ms`, e);
+            throw e;
+        } finally {
+            cleanup();
+        }
+      },
+      {
+        maxRetries: 2,
+        initialDelay: 2000,
+        onRetry: (attempt, error) => {
+          console.warn(`[Gemini Provider] Image generation retry attempt ${attempt}:`, error.message);
+        }
+      }
+    );
+  },
+
+  async translateTexts(texts: string[], language: string, config: StoryConfig, signal?: AbortSignal): Promise<string[]> {
+    const textModel = config.modelPresetModel || MODEL_TEXT_NAME;
+    const { signal: timeoutSignal, cleanup } = createTimeoutSignal(TIMEOUT_CONFIG.BEAT_GENERATION, signal);
+
+    const startTime = Date.now();
+    console.log(`[Gemini Provider] Starting translation - ${texts.length} strings to ${language}, Model: ${textModel}`);
+
+    try {
+        if (timeoutSignal.aborted) {
+          throw timeoutSignal.reason || new Error('Operation aborted');
+        }
+
+        const ai = getAI();
+        const res = await ai.models.generateContent({
+            model: textModel,
+            contents: buildTranslationPrompt(texts, language),
+            config: { responseMimeType: 'application/json' }
+        });
+
+        console.log(`[Gemini Provider] Translation completed in ${Date.now() - startTime}ms`);
+        return parseTranslationResponse(res.text || '', texts.length, 'Gemini Provider');
+    } finally {
+        cleanup();
+    }
+  },
+
+  async listModels(apiKey?: string) {
+    const key = apiKey || (typeof localStorage !== 'undefined' ? localStorage.getItem(GEMINI_KEY_STORAGE) : null) || process.env.API_KEY;
+    if (!key) return [];
+
+    const ai = new GoogleGenAI({ apiKey: key });
+    const pager = await ai.models.list({ config: { pageSize: 100 } });
+    return pager.page
+      .filter(model => model.name)
+      .map(model => {
+        const id = (model.name || '').replace(/^models\//, '');
+        return { id, name: model.displayName || id };
+      });
+  },
+
+  async validateKey(apiKey: string) {
+    try {
+      const ai = new GoogleGenAI({ apiKey });
+      const pager = await ai.models.list({ config: { pageSize: 1 } });
+      const modelName = pager.page[0]?.name || 'Gemini API';
+      return { ok: true, message: `✓ API key verified! Access to ${modelName}.` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error while testing key.';
+      return { ok: false, message: `✗ API key test failed: ${message}` };
+    }
+  }
+};
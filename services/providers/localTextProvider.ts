@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { buildBeatPrompt, buildBeatRepairPrompt, parseBeatResponse } from './beatPrompt';
+import { geminiProvider } from './geminiProvider';
+import { createTimeoutSignal } from './timeout';
+import { buildTranslationPrompt, parseTranslationResponse } from './translationPrompt';
+import { ComicProvider, ProviderModel } from './types';
+import { TIMEOUT_CONFIG } from '../../types';
+
+export const LOCAL_BASE_URL_STORAGE = 'localTextBaseUrl';
+export const LOCAL_KEY_STORAGE = 'localTextApiKey';
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+/**
+ * Normalizes whatever the user pasted ("localhost:1234/", ".../v1") into a
+ * base URL without trailing slash or /v1 suffix.
+ */
+export const normalizeBaseUrl = (raw: string): string => {
+  let url = raw.trim().replace(/\/+$/, '');
+  if (!/^https?:\/\//i.test(url)) url = `http://${url}`;
+  return url.replace(/\/v1$/i, '');
+};
+
+// The parts of the OpenAI-compatible responses that are read
+interface ModelListResponse {
+  data?: { id?: string }[];
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: unknown } }[];
+}
+
+const readStored = (key: string): string | null =>
+  typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+
+const getBaseUrl = (): string => normalizeBaseUrl(readStored(LOCAL_BASE_URL_STORAGE) || DEFAULT_BASE_URL);
+
+const buildHeaders = (apiKey?: string | null): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Most local servers ignore auth, but LM Studio/vLLM deployments can require one
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+  return headers;
+};
+
+const fetchModels = async (baseUrl: string, apiKey?: string | null, signal?: AbortSignal): Promise<ProviderModel[]> => {
+  const response = await fetch(`${baseUrl}/v1/models`, { headers: buildHeaders(apiKey), signal });
+  if (!response.ok) {
+    throw new Error(`Model list request failed: ${response.status} ${response.statusText}`);
+  }
+  const data = await response.json() as ModelListResponse;
+  const items = Array.isArray(data?.data) ? data.data : [];
+  return items
+    .map(model => ({ id: String(model?.id || ''), name: String(model?.id || '') }))
+    .filter(model => model.id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Text backend for any OpenAI-compatible server (Ollama, llama.cpp, LM Studio).
+ * Story text never leaves the configured host. It only writes scripts, so
+ * persona and panel art are delegated to Gemini.
+ */
+export const localTextProvider: ComicProvider = {
+  id: 'local',
+  label: 'Local (OpenAI-compatible)',
+  capabilities: ['text'],
+  apiKeyStorageKey: LOCAL_KEY_STORAGE,
+
+  generatePersona(desc, genre, config, signal) {
+    return geminiProvider.generatePersona(desc, genre, config, signal);
+  },
+
+  async generateBeat(history, pageNum, isDecisionPage, config, hero, friend, world, userGuidance, signal) {
+    const model = config.textModel;
+    if (!model) {
+      throw new Error('LOCAL_MODEL_MISSING: Select a text model for the local endpoint in Settings.');
+    }
+
+    const prompt = buildBeatPrompt(history, pageNum, isDecisionPage, config, hero, friend, world, userGuidance);
+    const baseUrl = getBaseUrl();
+
+    const { signal: timeoutSignal, cleanup } = createTimeoutSignal(
+      TIMEOUT_CONFIG.BEAT_GENERATION,
+      signal
+    );
+
+    const startTime = Date.now();
+    console.log(`[Local Provider] Starting beat generation - Page: ${pageNum}, Model: ${model}, Endpoint: ${baseUrl}`);
+
+    try {
+      if (timeoutSignal.aborted) {
+        console.warn("[Local Provider] Beat generation aborted before API call");
+        throw timeoutSignal.reason || new Error('Operation aborted');
+      }
+
+      const params = config.textModelParams || {};
+      const complete = async (userPrompt: string): Promise<string> => {
+        const response = await fetch(`${baseUrl}/v1/chat/completions`, {
+          method: 'POST',
+          headers: buildHeaders(readStored(LOCAL_KEY_STORAGE)),
+          signal: timeoutSignal,
+          body: JSON.stringify({
+            model,
+            messages: [
+              { role: 'system', content: 'You are a comic book writer. Reply with strict JSON only.' },
+              { role: 'user', content: userPrompt },
+            ],
+            temperature: params.temperature,
+            top_p: params.topP,
+            max_tokens: params.maxTokens,
+            frequency_penalty: params.frequencyPenalty,
+            presence_penalty: params.presencePenalty,
+            stream: false,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Local endpoint error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = await response.json() as ChatCompletionResponse;
+        const content = data?.choices?.[0]?.message?.content;
+        return typeof content === 'string' ? content : '{}';
+      };
+
+      const text = await complete(prompt);
+      const elapsed = Date.now() - startTime;
+      console.log(`[Local Provider] Beat generation API call completed in ${elapsed}ms`);
+
+      return await parseBeatResponse(text, pageNum, isDecisionPage, config, 'Local Provider',
+        (errors, rejected) => complete(buildBeatRepairPrompt(prompt, rejected, errors)));
+    } catch (e) {
+      const elapsed = Date.now() - startTime;
+      console.error(`[Local Provider] Beat generation failed after ${elapsed}ms`, e);
+      throw e;
+    } finally {
+      cleanup();
+    }
+  },
+
+  async translateTexts(texts, language, config, signal) {
+    const model = config.textModel;
+    if (!model) {
+      throw new Error('LOCAL_MODEL_MISSING: Select a text model for the local endpoint in Settings.');
+    }
+
+    const { signal: timeoutSignal, cleanup } = createTimeoutSignal(TIMEOUT_CONFIG.BEAT_GENERATION, signal);
+    try {
+      const response = await fetch(`${getBaseUrl()}/v1/chat/completions`, {
+        method: 'POST',
+        headers: buildHeaders(readStored(LOCAL_KEY_STORAGE)),
+        signal: timeoutSignal,
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: 'You are a comic book letterer. Reply with strict JSON only.' },
+            { role: 'user', content: buildTranslationPrompt(texts, language) },
+          ],
+          temperature: 0.2,
+          stream: false,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Local endpoint error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      const content = data?.choices?.[0]?.message?.content;
+      return parseTranslationResponse(typeof content === 'string' ? content : '', texts.length, 'Local Provider');
+    } finally {
+      cleanup();
+    }
+  },
+
+  generateImage(beat, type, config, hero, friend, world, signal) {
+    return geminiProvider.generateImage(beat, type, config, hero, friend, world, signal);
+  },
+
+  listModels(apiKey?: string) {
+    return fetchModels(getBaseUrl(), apiKey ?? readStored(LOCAL_KEY_STORAGE));
+  },
+
+  async validateKey(apiKey: string) {
+    const baseUrl = getBaseUrl();
+    try {
+      const models = await fetchModels(baseUrl, apiKey);
+      return { ok: true, message: `✓ Connected to ${baseUrl}. ${models.length} model${models.length === 1 ? '' : 's'} available.` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error while contacting the endpoint.';
+      return { ok: false, message: `✗ Could not reach ${baseUrl}: ${message}` };
+    }
+  }
+};
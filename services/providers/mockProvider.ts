@@ -0,0 +1,290 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ComicProvider } from './types';
+import { Beat, ComicFace } from '../../types';
+import { getIssueLabel } from '../../utils/continuity';
+import { getIssueLayout } from '../../utils/issueLayout';
+import { getPageLayout } from '../../utils/pageLayouts';
+
+// Short pause so progress indicators are visible, like a real backend
+const MOCK_LATENCY_MS = 400;
+const PANEL_WIDTH = 512;
+const PANEL_HEIGHT = 768; // 2:3, matching the real panel aspect ratio
+const PERSONA_SIZE = 512;
+
+const PALETTE = ['#1e3a8a', '#7c2d12', '#14532d', '#581c87', '#831843', '#134e4a', '#713f12', '#312e81'];
+
+const SCENES = [
+  'HERO stands on a rooftop at dusk, scanning the skyline for trouble.',
+  'A sudden explosion rocks the street below as HERO leaps into action.',
+  'HERO and CO-STAR crouch behind cover, plotting their next move.',
+  'A shadowy figure watches HERO from the far end of a narrow alley.',
+  'HERO races through a crowded market, scattering fruit crates.',
+  'CO-STAR hacks a glowing terminal while HERO guards the door.',
+  'A tense standoff: HERO faces the villain across a rain-soaked bridge.',
+  'HERO catches a falling stranger mid-air in a burst of motion lines.',
+  'The pair regroup in a hidden hideout lit by a single flickering bulb.',
+  'HERO stares at the horizon as the storm finally breaks.',
+];
+
+const CAPTIONS = [
+  'Nobody expected tonight to be the night everything changed.',
+  'The city held its breath.',
+  'Every plan has a weak spot. This one had two.',
+  'Somewhere, a clock was ticking.',
+  'There was no time to second-guess.',
+  'Trust is earned one risk at a time.',
+  'The truth was closer than anyone wanted.',
+  'Heroes are made in moments like this.',
+  'For one quiet breath, it almost felt safe.',
+  'The fight was over. The story was not.',
+];
+
+const DIALOGUES = [
+  'Something is wrong here.',
+  'Move! Now!',
+  'Stay close and follow my lead.',
+  'Who are you?',
+  'I did not come this far to quit.',
+  'Give me ten seconds.',
+  'It ends here.',
+  'Got you!',
+  'We need a better plan.',
+  'See you next time.',
+];
+
+const CHOICES: [string, string][] = [
+  ['Tell the truth', 'Keep the secret'],
+  ['Forgive the traitor', 'Seek revenge'],
+  ['Save the stranger', 'Chase the villain'],
+  ['Trust the partner', 'Go it alone'],
+];
+
+/**
+ * Small seeded PRNG (mulberry32) so the same page always yields the same beat.
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)] as T;
+
+const hashString = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(31, hash) + text.charCodeAt(i) | 0;
+  }
+  return hash;
+};
+
+const abortError = (signal?: AbortSignal): Error =>
+  signal?.reason instanceof Error ? signal.reason : new Error('Operation aborted');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError(signal));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError(signal));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  return { canvas, ctx };
+};
+
+/**
+ * Draws a placeholder panel: seeded background, halftone dots, the scene text
+ * and the beat's caption/dialogue so the layout can be checked without art.
+ */
+const renderPanel = (heading: string, body: string, seed: number, beat?: Beat): string => {
+  const { canvas, ctx } = createCanvas(PANEL_WIDTH, PANEL_HEIGHT);
+  const random = createRandom(seed);
+
+  ctx.fillStyle = pick(PALETTE, random);
+  ctx.fillRect(0, 0, PANEL_WIDTH, PANEL_HEIGHT);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+  for (let y = 12; y < PANEL_HEIGHT; y += 24) {
+    for (let x = (y / 24) % 2 ? 24 : 12; x < PANEL_WIDTH; x += 24) {
+      ctx.beginPath();
+      ctx.arc(x, y, 5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 12;
+  ctx.strokeRect(6, 6, PANEL_WIDTH - 12, PANEL_HEIGHT - 12);
+
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#facc15';
+  ctx.font = 'bold 44px Bangers, Impact, sans-serif';
+  wrapText(ctx, heading, PANEL_WIDTH - 60).forEach((line, i) => ctx.fillText(line, PANEL_WIDTH / 2, 80 + i * 48));
+
+  ctx.fillStyle = '#fff';
+  ctx.font = '22px sans-serif';
+  wrapText(ctx, body, PANEL_WIDTH - 80).forEach((line, i) => ctx.fillText(line, PANEL_WIDTH / 2, 300 + i * 28));
+
+  ctx.textAlign = 'left';
+  ctx.font = 'bold 18px sans-serif';
+  if (beat?.caption) {
+    const lines = wrapText(ctx, beat.caption, PANEL_WIDTH - 72);
+    ctx.fillStyle = '#fef08a';
+    ctx.fillRect(24, 150, PANEL_WIDTH - 48, lines.length * 24 + 16);
+    ctx.fillStyle = '#000';
+    lines.forEach((line, i) => ctx.fillText(line, 36, 172 + i * 24));
+  }
+  if (beat?.dialogue) {
+    const lines = wrapText(ctx, beat.dialogue, PANEL_WIDTH - 112);
+    const top = PANEL_HEIGHT - 60 - lines.length * 24;
+    ctx.fillStyle = '#fff';
+    ctx.beginPath();
+    ctx.ellipse(PANEL_WIDTH / 2, top + (lines.length * 24) / 2, PANEL_WIDTH / 2 - 24, lines.length * 16 + 28, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#000';
+    ctx.textAlign = 'center';
+    lines.forEach((line, i) => ctx.fillText(line, PANEL_WIDTH / 2, top + 18 + i * 24));
+  }
+
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+/**
+ * Offline backend for development and demos. Beats are deterministic per page
+ * and images are drawn locally, so the full launch -> director -> decision ->
+ * back cover flow runs with no keys and no network.
+ */
+export const mockProvider: ComicProvider = {
+  id: 'mock',
+  label: 'Mock (Offline)',
+  capabilities: ['text', 'image'],
+  worksOffline: true,
+
+  async generatePersona(desc, _genre, _config, signal) {
+    await wait(MOCK_LATENCY_MS, signal);
+
+    const { canvas, ctx } = createCanvas(PERSONA_SIZE, PERSONA_SIZE);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillRect(0, 0, PERSONA_SIZE, PERSONA_SIZE);
+    ctx.fillStyle = '#111827';
+    ctx.beginPath();
+    ctx.arc(PERSONA_SIZE / 2, 170, 80, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillRect(PERSONA_SIZE / 2 - 110, 270, 220, 200);
+    ctx.fillStyle = '#000';
+    ctx.textAlign = 'center';
+    ctx.font = 'bold 18px sans-serif';
+    wrapText(ctx, desc, PERSONA_SIZE - 40).slice(0, 2).forEach((line, i) => ctx.fillText(line, PERSONA_SIZE / 2, 30 + i * 22));
+
+    const base64 = canvas.toDataURL('image/jpeg', 0.85).split(',')[1] ?? '';
+    return { base64, name: 'Sidekick', description: desc };
+  },
+
+  async generateBeat(_history, pageNum, isDecisionPage, config, hero, friend, world, userGuidance, signal) {
+    await wait(MOCK_LATENCY_MS, signal);
+
+    const random = createRandom(pageNum * 7919);
+    const { storyPages } = getIssueLayout(config);
+    const index = (pageNum - 1) % SCENES.length;
+    // Bring the co-star in on page 3 so sidekick casting is exercised too
+    const focus_char: Beat['focus_char'] = pageNum === 3 || (friend && pageNum % 3 === 0) ? 'friend' : pageNum % 4 === 0 ? 'other' : 'hero';
+
+    let scene = SCENES[index] ?? SCENES[0]!;
+    if (world) scene += ` Setting: ${world.name}.`;
+
+    let caption = CAPTIONS[index] ?? CAPTIONS[0]!;
+    if (userGuidance) caption = `${userGuidance.replace(/^User chose:\s*/i, '')}. ${caption}`;
+    if (pageNum === storyPages) caption += ' TO BE CONTINUED...';
+
+    const speaker = focus_char === 'friend' && friend ? friend.name : hero.name;
+    const dialogue = `${DIALOGUES[index] ?? DIALOGUES[0]!}${speaker ? ` — ${speaker}` : ''}`;
+
+    // Multi-panel layouts get one beat per frame, walking on through the scene list
+    const { frames } = getPageLayout(config);
+    const panels = frames.length > 1
+      ? frames.map((_frame, i) => ({
+          caption: i === 0 ? caption : undefined,
+          dialogue: i === frames.length - 1 ? dialogue : undefined,
+          scene: SCENES[(index + i) % SCENES.length] ?? scene,
+          focus_char,
+        }))
+      : undefined;
+
+    return {
+      caption,
+      dialogue,
+      scene,
+      focus_char,
+      choices: isDecisionPage && pageNum !== storyPages ? [...pick(CHOICES, random)] : [],
+      panels,
+    };
+  },
+
+  async generateImage(beat, type: ComicFace['type'], config, hero, _friend, world, signal) {
+    await wait(MOCK_LATENCY_MS, signal);
+
+    if (type === 'cover') {
+      const title = config.continuity ? getIssueLabel(config.continuity).toUpperCase() : 'INFINITE HEROES';
+      return renderPanel(title, `Starring ${hero.name || 'our hero'}${world ? ` in ${world.name}` : ''}`, 1);
+    }
+    if (type === 'back_cover') {
+      const teaser = config.continuity ? `NEXT: ISSUE #${config.continuity.issueNumber + 1}` : 'NEXT ISSUE SOON';
+      return renderPanel(teaser, 'Placeholder art from the offline mock provider.', 2);
+    }
+    return renderPanel('MOCK PANEL', beat.scene, hashString(beat.scene), beat);
+  },
+
+  async translateTexts(texts, language, _config, signal) {
+    await wait(MOCK_LATENCY_MS, signal);
+    // Tagged rather than translated so a re-lettered edition is easy to spot
+    const tag = language.split('-')[0]?.toUpperCase() ?? language;
+    return texts.map(text => `[${tag}] ${text}`);
+  },
+
+  listModels() {
+    return Promise.resolve([{ id: 'mock', name: 'Mock (deterministic, offline)' }]);
+  },
+
+  validateKey() {
+    return Promise.resolve({ ok: true, message: '✓ The mock provider does not need a key.' });
+  }
+};
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OpenRouter } from '@openrouter/sdk';
+import { OpenRouterService } from '../openRouterService';
+import { ComicProvider, ProviderModel } from './types';
+
+const OPENROUTER_KEY_STORAGE = 'openrouterApiKey';
+const DEFAULT_IMAGE_MODEL = 'openai/dall-e-3';
+
+export const openRouterProvider: ComicProvider = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+  capabilities: ['text', 'image'],
+  apiKeyStorageKey: OPENROUTER_KEY_STORAGE,
+
+  generatePersona(desc, genre, config, signal) {
+    return OpenRouterService.generatePersona(desc, genre, config.imageModel || DEFAULT_IMAGE_MODEL, signal);
+  },
+
+  generateBeat(history, pageNum, isDecisionPage, config, hero, friend, world, userGuidance, signal, onPreview, cacheScope) {
+    return OpenRouterService.generateBeat(history, pageNum, isDecisionPage, config, hero, friend, world, userGuidance, signal, onPreview, cacheScope);
+  },
+
+  generateImage(beat, type, config, hero, friend, world, signal) {
+    return OpenRouterService.generateImage(beat, type, config, hero, friend, world, signal);
+  },
+
+  translateTexts(texts, language, config, signal) {
+    return OpenRouterService.translateTexts(texts, language, config, signal);
+  },
+
+  async listModels(apiKey?: string): Promise<ProviderModel[]> {
+    const key = apiKey || (typeof localStorage !== 'undefined' ? localStorage.getItem(OPENROUTER_KEY_STORAGE) : null);
+    if (!key) return [];
+
+    const client = new OpenRouter({ apiKey: key });
+    const response = await client.models.list();
+    if (!Array.isArray(response.data)) return [];
+
+    return response.data
+      .map((model): ProviderModel => ({
+        id: model.id,
+        name: model.name || model.id
+      }))
+      .filter(m => m.id)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async validateKey(apiKey: string) {
+    try {
+      const response = await fetch('https://openrouter.ai/api/v1/models', {
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+        },
+      });
+
+      if (!response.ok) {
+        return { ok: false, message: `✗ API key test failed: ${response.statusText}` };
+      }
+      const data = await response.json();
+      const modelCount = data.data?.length || 0;
+      return { ok: true, message: `✓ OpenRouter API key verified! Access to ${modelCount} models.` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error while testing key.';
+      return { ok: false, message: `✗ API key test failed: ${message}` };
+    }
+  }
+};
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { geminiProvider } from './geminiProvider';
+import { localTextProvider } from './localTextProvider';
+import { mockProvider } from './mockProvider';
+import { openRouterProvider } from './openRouterProvider';
+import { stableDiffusionProvider } from './stableDiffusionProvider';
+import { ComicProvider, ProviderCapability } from './types';
+import { AIProvider, StoryConfig } from '../../types';
+
+const DEFAULT_PROVIDER_ID: AIProvider = 'gemini';
+
+const providers = new Map<AIProvider, ComicProvider>();
+
+/**
+ * Adds a backend to the registry. Registering an existing id replaces it.
+ */
+export const registerProvider = (provider: ComicProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * Resolves a provider by id. Unknown ids (e.g. from a preset saved by a newer
+ * build) fall back to Gemini rather than failing mid-story.
+ */
+export const getProvider = (id: AIProvider | undefined): ComicProvider => {
+  const provider = (id && providers.get(id)) || providers.get(DEFAULT_PROVIDER_ID);
+  if (!provider) {
+    throw new Error(`No AI provider registered for "${id ?? DEFAULT_PROVIDER_ID}"`);
+  }
+  if (id && provider.id !== id) {
+    console.warn(`[Provider Registry] Unknown provider "${id}", falling back to ${provider.label}`);
+  }
+  return provider;
+};
+
+/**
+ * Lists registered backends, optionally only those that natively produce the
+ * given kind of output.
+ */
+export const listProviders = (capability?: ProviderCapability): ComicProvider[] => {
+  const all = Array.from(providers.values());
+  return capability ? all.filter(provider => provider.capabilities.includes(capability)) : all;
+};
+
+type ProviderSelection = Pick<StoryConfig, 'aiProvider' | 'textProvider' | 'imageProvider'>;
+
+// Backend that writes beats for this config
+export const getTextProvider = (config: ProviderSelection): ComicProvider =>
+  getProvider(config.textProvider || config.aiProvider);
+
+// Backend that draws personas, panels and covers for this config
+export const getImageProvider = (config: ProviderSelection): ComicProvider =>
+  getProvider(config.imageProvider || config.aiProvider);
+
+// Built-in backends
+registerProvider(geminiProvider);
+registerProvider(openRouterProvider);
+registerProvider(localTextProvider);
+registerProvider(stableDiffusionProvider);
+registerProvider(mockProvider);
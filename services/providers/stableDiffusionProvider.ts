@@ -0,0 +1,367 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { geminiProvider } from './geminiProvider';
+import { createTimeoutSignal } from './timeout';
+import { ComicProvider, ProviderModel } from './types';
+import { Beat, ComicFace, Persona, StoryConfig, TIMEOUT_CONFIG, World } from '../../types';
+
+export type SdBackend = 'automatic1111' | 'comfyui';
+
+export const SD_BASE_URL_STORAGE = 'sdBaseUrl';
+export const SD_BACKEND_STORAGE = 'sdBackend';
+export const SD_IP_ADAPTER_STORAGE = 'sdIpAdapterModel';
+export const SD_COMFY_WORKFLOW_STORAGE = 'sdComfyWorkflow';
+
+const DEFAULT_BASE_URL = 'http://127.0.0.1:7860';
+
+// Same aspect ratios the Gemini path requests: 2:3 panels, 1:1 character sheets
+const PANEL_SIZE = { width: 512, height: 768 };
+const PERSONA_SIZE = { width: 512, height: 512 };
+
+const NEGATIVE_PROMPT = 'text, watermark, signature, speech bubble, lowres, blurry, deformed, extra limbs, bad anatomy';
+// How much of a world reference survives img2img; lower keeps more of the reference
+const WORLD_DENOISING_STRENGTH = 0.7;
+const IP_ADAPTER_WEIGHT = 0.7;
+const COMFY_POLL_INTERVAL = 1000;
+
+interface SdRequest {
+  prompt: string;
+  width: number;
+  height: number;
+  model: string;
+  characterRefs: string[]; // base64, no data URL prefix
+  worldRef?: string;
+}
+
+// The parts of the Automatic1111 and ComfyUI responses that are read
+interface A1111ImageResponse { images?: unknown[]; }
+interface A1111Checkpoint { title?: string; model_name?: string; }
+interface ComfyImage { filename: string; subfolder: string; type: string; }
+interface ComfyUploadResponse { name?: string; }
+interface ComfyQueueResponse { prompt_id?: string; }
+type ComfyHistoryResponse = Record<string, { outputs?: Record<string, { images?: ComfyImage[] }> } | undefined>;
+interface ComfyCheckpointInfo { CheckpointLoaderSimple?: { input?: { required?: { ckpt_name?: unknown[] } } }; }
+
+const readStored = (key: string): string | null =>
+  typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null;
+
+const getBaseUrl = (): string =>
+  (readStored(SD_BASE_URL_STORAGE) || DEFAULT_BASE_URL).trim().replace(/\/+$/, '');
+
+const getBackend = (): SdBackend =>
+  readStored(SD_BACKEND_STORAGE) === 'comfyui' ? 'comfyui' : 'automatic1111';
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error('Operation aborted');
+  }
+};
+
+const postJson = async <T>(url: string, body: unknown, signal: AbortSignal): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Stable Diffusion request failed: ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as T;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error(`Failed to read image: ${reader.error?.message || 'Unknown error'}`));
+  reader.readAsDataURL(blob);
+});
+
+const base64ToBlob = (base64: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: 'image/jpeg' });
+};
+
+const primaryImage = (persona: Persona | null): string | undefined =>
+  persona ? (persona.images?.[0] || persona.base64 || undefined) : undefined;
+
+/**
+ * SD models respond to descriptive tags rather than instructions, so the
+ * HERO/CO-STAR placeholders in the scene are swapped for the cast's profiles.
+ */
+const buildPanelPrompt = (
+  beat: Beat,
+  type: ComicFace['type'],
+  config: StoryConfig,
+  hero: Persona,
+  friend: Persona | null,
+  world: World | null
+): string => {
+  const styleEra = config.genre === 'Custom' ? 'modern American' : config.genre;
+  const parts = [`${styleEra} comic book art, detailed ink, vibrant colors`];
+
+  if (type === 'cover') {
+    parts.push('comic book cover, dynamic action pose, epic composition');
+    parts.push(hero.description || hero.name);
+  } else if (type === 'back_cover') {
+    parts.push('comic book back cover, dramatic teaser, moody full page art');
+  } else {
+    const heroText = hero.description ? `${hero.name} (${hero.description})` : hero.name;
+    const friendText = friend ? (friend.description ? `${friend.name} (${friend.description})` : friend.name) : 'companion';
+    parts.push(beat.scene.replace(/\bHERO\b/g, heroText || 'hero').replace(/\b(CO-STAR|SIDEKICK)\b/g, friendText));
+  }
+
+  if (world) parts.push(`setting: ${world.name}, ${world.description}`);
+  if (config.imagePrompt) parts.push(config.imagePrompt);
+  return parts.join(', ');
+};
+
+// --- Automatic1111 -------------------------------------------------------
+
+const generateWithA1111 = async (baseUrl: string, request: SdRequest, signal: AbortSignal): Promise<string> => {
+  const ipAdapterModel = readStored(SD_IP_ADAPTER_STORAGE);
+  const payload: Record<string, unknown> = {
+    prompt: request.prompt,
+    negative_prompt: NEGATIVE_PROMPT,
+    width: request.width,
+    height: request.height,
+    steps: 25,
+    cfg_scale: 7,
+    sampler_name: 'DPM++ 2M',
+  };
+  if (request.model) {
+    payload['override_settings'] = { sd_model_checkpoint: request.model };
+  }
+
+  // Character likeness goes through IP-Adapter (ControlNet extension) when configured
+  if (ipAdapterModel && request.characterRefs.length > 0) {
+    payload['alwayson_scripts'] = {
+      controlnet: {
+        args: request.characterRefs.map(image => ({
+          enabled: true,
+          image,
+          module: 'ip-adapter_clip_sd15',
+          model: ipAdapterModel,
+          weight: IP_ADAPTER_WEIGHT,
+        })),
+      },
+    };
+  }
+
+  // The world reference anchors the environment through img2img
+  const endpoint = request.worldRef ? 'img2img' : 'txt2img';
+  if (request.worldRef) {
+    payload['init_images'] = [request.worldRef];
+    payload['denoising_strength'] = WORLD_DENOISING_STRENGTH;
+  }
+
+  const data = await postJson<A1111ImageResponse>(`${baseUrl}/sdapi/v1/${endpoint}`, payload, signal);
+  const image = Array.isArray(data?.images) ? data.images[0] : undefined;
+  if (typeof image !== 'string' || !image) {
+    throw new Error('Automatic1111 returned no image data');
+  }
+  return image.startsWith('data:') ? image : `data:image/png;base64,${image}`;
+};
+
+// --- ComfyUI -------------------------------------------------------------
+
+/**
+ * Minimal txt2img graph used when no custom workflow is configured. Custom
+ * workflows (API format) can use the same {{placeholders}}, plus
+ * {{hero_image}} and {{world_image}} for LoadImage/IP-Adapter nodes.
+ */
+const DEFAULT_COMFY_WORKFLOW = {
+  '3': { class_type: 'KSampler', inputs: { seed: '{{seed}}', steps: 25, cfg: 7, sampler_name: 'dpmpp_2m', scheduler: 'karras', denoise: 1, model: ['4', 0], positive: ['6', 0], negative: ['7', 0], latent_image: ['5', 0] } },
+  '4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: '{{model}}' } },
+  '5': { class_type: 'EmptyLatentImage', inputs: { width: '{{width}}', height: '{{height}}', batch_size: 1 } },
+  '6': { class_type: 'CLIPTextEncode', inputs: { text: '{{prompt}}', clip: ['4', 1] } },
+  '7': { class_type: 'CLIPTextEncode', inputs: { text: '{{negative_prompt}}', clip: ['4', 1] } },
+  '8': { class_type: 'VAEDecode', inputs: { samples: ['3', 0], vae: ['4', 2] } },
+  '9': { class_type: 'SaveImage', inputs: { filename_prefix: 'infinite-heroes', images: ['8', 0] } },
+};
+
+/**
+ * Replaces {{placeholders}} in a workflow. A string that is exactly one
+ * placeholder takes the raw value (so numbers stay numbers).
+ */
+const fillWorkflow = (node: unknown, values: Record<string, string | number>): unknown => {
+  if (typeof node === 'string') {
+    const exact = node.match(/^\{\{(\w+)\}\}$/);
+    if (exact?.[1] && exact[1] in values) return values[exact[1]];
+    return node.replace(/\{\{(\w+)\}\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+  }
+  if (Array.isArray(node)) return node.map(item => fillWorkflow(item, values));
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, fillWorkflow(value, values)]));
+  }
+  return node;
+};
+
+const uploadComfyImage = async (baseUrl: string, base64: string, name: string, signal: AbortSignal): Promise<string> => {
+  const form = new FormData();
+  form.append('image', base64ToBlob(base64), `${name}.jpg`);
+  form.append('overwrite', 'true');
+  const response = await fetch(`${baseUrl}/upload/image`, { method: 'POST', body: form, signal });
+  if (!response.ok) {
+    throw new Error(`ComfyUI image upload failed: ${response.status} ${response.statusText}`);
+  }
+  const data = await response.json() as ComfyUploadResponse | null;
+  return String(data?.name || `${name}.jpg`);
+};
+
+const waitForComfyOutput = async (baseUrl: string, promptId: string, signal: AbortSignal): Promise<ComfyImage> => {
+  for (;;) {
+    throwIfAborted(signal);
+    const response = await fetch(`${baseUrl}/history/${promptId}`, { signal });
+    if (response.ok) {
+      const history = await response.json() as ComfyHistoryResponse | null;
+      const outputs = history?.[promptId]?.outputs;
+      const image = outputs && Object.values(outputs).flatMap(output => output.images ?? [])[0];
+      if (image) return image;
+    }
+    await new Promise(resolve => setTimeout(resolve, COMFY_POLL_INTERVAL));
+  }
+};
+
+const generateWithComfy = async (baseUrl: string, request: SdRequest, signal: AbortSignal): Promise<string> => {
+  const storedWorkflow = readStored(SD_COMFY_WORKFLOW_STORAGE);
+  let workflow: unknown = DEFAULT_COMFY_WORKFLOW;
+  if (storedWorkflow) {
+    try {
+      workflow = JSON.parse(storedWorkflow);
+    } catch {
+      throw new Error('The saved ComfyUI workflow is not valid JSON. Re-export it in API format.');
+    }
+  }
+
+  const stamp = Date.now();
+  const values: Record<string, string | number> = {
+    prompt: request.prompt,
+    negative_prompt: NEGATIVE_PROMPT,
+    width: request.width,
+    height: request.height,
+    seed: Math.floor(Math.random() * 2 ** 32),
+    model: request.model,
+  };
+  const heroRef = request.characterRefs[0];
+  if (heroRef) values['hero_image'] = await uploadComfyImage(baseUrl, heroRef, `hero-${stamp}`, signal);
+  if (request.worldRef) values['world_image'] = await uploadComfyImage(baseUrl, request.worldRef, `world-${stamp}`, signal);
+
+  const queued = await postJson<ComfyQueueResponse | null>(`${baseUrl}/prompt`, { prompt: fillWorkflow(workflow, values), client_id: 'infinite-heroes' }, signal);
+  const promptId = String(queued?.prompt_id || '');
+  if (!promptId) {
+    throw new Error('ComfyUI did not accept the workflow');
+  }
+
+  const output = await waitForComfyOutput(baseUrl, promptId, signal);
+  const query = new URLSearchParams({ filename: output.filename, subfolder: output.subfolder, type: output.type });
+  const imageResponse = await fetch(`${baseUrl}/view?${query.toString()}`, { signal });
+  if (!imageResponse.ok) {
+    throw new Error(`ComfyUI image download failed: ${imageResponse.status} ${imageResponse.statusText}`);
+  }
+  return blobToDataUrl(await imageResponse.blob());
+};
+
+const runGeneration = async (request: SdRequest, timeoutMs: number, signal?: AbortSignal): Promise<string> => {
+  const baseUrl = getBaseUrl();
+  const backend = getBackend();
+  const { signal: timeoutSignal, cleanup } = createTimeoutSignal(timeoutMs, signal);
+
+  const startTime = Date.now();
+  console.log(`[Stable Diffusion Provider] Starting ${backend} generation - ${request.width}x${request.height}, References: ${request.characterRefs.length + (request.worldRef ? 1 : 0)}`);
+
+  try {
+    throwIfAborted(timeoutSignal);
+    const url = backend === 'comfyui'
+      ? await generateWithComfy(baseUrl, request, timeoutSignal)
+      : await generateWithA1111(baseUrl, request, timeoutSignal);
+    console.log(`[Stable Diffusion Provider] Image generated in ${Date.now() - startTime}ms`);
+    return url;
+  } catch (e) {
+    console.error(`[Stable Diffusion Provider] Generation failed after ${Date.now() - startTime}ms`, e);
+    throw e;
+  } finally {
+    cleanup();
+  }
+};
+
+const fetchCheckpoints = async (baseUrl: string, backend: SdBackend): Promise<ProviderModel[]> => {
+  if (backend === 'comfyui') {
+    const response = await fetch(`${baseUrl}/object_info/CheckpointLoaderSimple`);
+    if (!response.ok) throw new Error(`Checkpoint list request failed: ${response.status} ${response.statusText}`);
+    const data = await response.json() as ComfyCheckpointInfo | null;
+    const names: unknown = data?.CheckpointLoaderSimple?.input?.required?.ckpt_name?.[0];
+    return Array.isArray(names) ? names.map(name => ({ id: String(name), name: String(name) })) : [];
+  }
+
+  const response = await fetch(`${baseUrl}/sdapi/v1/sd-models`);
+  if (!response.ok) throw new Error(`Checkpoint list request failed: ${response.status} ${response.statusText}`);
+  const data: unknown = await response.json();
+  return Array.isArray(data)
+    ? (data as A1111Checkpoint[]).map(model => ({ id: String(model.title || model.model_name), name: String(model.model_name || model.title) }))
+    : [];
+};
+
+/**
+ * Image backend for a self-hosted Stable Diffusion server (Automatic1111 web
+ * UI API or ComfyUI). It only draws, so story text is delegated to Gemini.
+ */
+export const stableDiffusionProvider: ComicProvider = {
+  id: 'stable-diffusion',
+  label: 'Stable Diffusion (Local)',
+  capabilities: ['image'],
+
+  async generatePersona(desc, genre, config, signal) {
+    const style = genre === 'Custom' ? 'modern American comic book art' : `${genre} comic`;
+    const url = await runGeneration({
+      prompt: `masterpiece ${style} character sheet, detailed ink, neutral background, full body, ${desc}`,
+      ...PERSONA_SIZE,
+      model: config.imageModel,
+      characterRefs: [],
+    }, TIMEOUT_CONFIG.PERSONA_GENERATION, signal);
+    return { base64: url.split(',')[1] ?? '', name: 'Sidekick', description: desc };
+  },
+
+  generateBeat(history, pageNum, isDecisionPage, config, hero, friend, world, userGuidance, signal, onPreview, cacheScope) {
+    return geminiProvider.generateBeat(history, pageNum, isDecisionPage, config, hero, friend, world, userGuidance, signal, onPreview, cacheScope);
+  },
+
+  translateTexts(texts, language, config, signal) {
+    return geminiProvider.translateTexts(texts, language, config, signal);
+  },
+
+  generateImage(beat, type, config, hero, friend, world, signal) {
+    const mentionsFriend = /\b(CO-STAR|SIDEKICK)\b/.test(beat.scene);
+    const characterRefs = [primaryImage(hero), mentionsFriend ? primaryImage(friend) : undefined]
+      .filter((image): image is string => !!image);
+
+    return runGeneration({
+      prompt: buildPanelPrompt(beat, type, config, hero, friend, world),
+      ...PANEL_SIZE,
+      model: config.imageModel,
+      characterRefs,
+      worldRef: world?.images?.[0],
+    }, TIMEOUT_CONFIG.IMAGE_GENERATION, signal);
+  },
+
+  listModels() {
+    return fetchCheckpoints(getBaseUrl(), getBackend());
+  },
+
+  async validateKey() {
+    const baseUrl = getBaseUrl();
+    const backend = getBackend();
+    try {
+      const models = await fetchCheckpoints(baseUrl, backend);
+      return { ok: true, message: `✓ Connected to ${backend === 'comfyui' ? 'ComfyUI' : 'Automatic1111'} at ${baseUrl}. ${models.length} checkpoint${models.length === 1 ? '' : 's'} found.` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error while contacting the server.';
+      return { ok: false, message: `✗ Could not reach ${baseUrl}: ${message}` };
+    }
+  }
+};
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Creates an AbortSignal with a timeout. Combines manual abort control with automatic timeout.
+ * @param timeoutMs - Timeout in milliseconds
+ * @param externalSignal - Optional external AbortSignal to combine with timeout
+ * @returns Object containing the signal and cleanup function
+ */
+export const createTimeoutSignal = (
+  timeoutMs: number,
+  externalSignal?: AbortSignal
+): { signal: AbortSignal; cleanup: () => void } => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort(new Error(`Operation timed out after ${timeoutMs}ms`));
+  }, timeoutMs);
+
+  // If external signal is provided, forward its abort
+  const abortHandler = () => {
+    controller.abort(externalSignal?.reason);
+  };
+
+  if (externalSignal) {
+    if (externalSignal.aborted) {
+      controller.abort(externalSignal.reason);
+    } else {
+      externalSignal.addEventListener('abort', abortHandler);
+    }
+  }
+
+  const cleanup = () => {
+    clearTimeout(timeoutId);
+    if (externalSignal) {
+      externalSignal.removeEventListener('abort', abortHandler);
+    }
+  };
+
+  return { signal: controller.signal, cleanup };
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LANGUAGES } from '../../types';
+
+/**
+ * Builds the prompt that translates an issue's lettering. Texts are sent as a
+ * numbered JSON array so the reply can be matched back line by line.
+ */
+export const buildTranslationPrompt = (texts: string[], language: string): string => {
+  const langName = LANGUAGES.find(l => l.code === language)?.name || language;
+
+  return `
+You are a comic book letterer localizing an issue into ${langName}.
+Translate every string below into ${langName}. Keep the tone, slang and punctuation of comic captions and speech balloons.
+Keep names of characters and places unchanged. Keep each translation about as short as the original so it fits its balloon.
+
+INPUT (JSON array, ${texts.length} strings):
+${JSON.stringify(texts)}
+
+OUTPUT STRICT JSON ONLY (No markdown formatting): an array of exactly ${texts.length} strings in the same order.
+`;
+};
+
+/**
+ * Parses the translated array. Unlike beats there is no safe placeholder, so a
+ * reply of the wrong shape throws instead of lettering the page with junk.
+ */
+export const parseTranslationResponse = (text: string, expectedCount: number, logTag: string): string[] => {
+  const rawText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawText);
+  } catch (parseError) {
+    // Story text stays out of the log, as with beats
+    console.error(`[${logTag}] Translation parsing failed`, { parseError, rawTextLength: rawText.length });
+    throw new Error('TRANSLATION_INVALID: The text model did not return a translation.');
+  }
+
+  // Some models wrap the array, e.g. { "translations": [...] }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' ? Object.values(parsed).find(Array.isArray) : undefined;
+
+  if (!Array.isArray(list) || list.length !== expectedCount) {
+    console.error(`[${logTag}] Translation returned ${Array.isArray(list) ? list.length : 'no'} strings, expected ${expectedCount}`);
+    throw new Error('TRANSLATION_INVALID: The text model returned the wrong number of strings.');
+  }
+
+  return list.map(item => String(item ?? ''));
+};
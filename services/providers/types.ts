@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AIProvider, Beat, BeatPreview, ComicFace, Persona, StoryConfig, World } from '../../types';
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+}
+
+// What a backend can produce natively; roles it lacks are delegated to Gemini
+export type ProviderCapability = 'text' | 'image';
+
+export interface KeyValidationResult {
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Contract every generation backend implements. The engine only ever talks to
+ * providers through AiService, which resolves them from the registry by id.
+ */
+export interface ComicProvider {
+  id: AIProvider;
+  label: string;
+  capabilities: ProviderCapability[];
+  // localStorage entry holding this provider's key (omitted for providers that need none)
+  apiKeyStorageKey?: string;
+  // True for backends that never touch the network, so the UI may launch while offline
+  worksOffline?: boolean;
+
+  generatePersona(
+    desc: string,
+    genre: string,
+    config: StoryConfig,
+    signal?: AbortSignal
+  ): Promise<Persona>;
+
+  generateBeat(
+    history: ComicFace[],
+    pageNum: number,
+    isDecisionPage: boolean,
+    config: StoryConfig,
+    hero: Persona,
+    friend: Persona | null,
+    world: World | null,
+    userGuidance?: string,
+    signal?: AbortSignal,
+    // Called with the caption and dialogue so far by providers that stream the beat
+    onPreview?: (preview: BeatPreview) => void,
+    // Branch the beat is written for; providers with a beat cache skip it without one
+    cacheScope?: string
+  ): Promise<Beat>;
+
+  generateImage(
+    beat: Beat,
+    type: ComicFace['type'],
+    config: StoryConfig,
+    hero: Persona,
+    friend: Persona | null,
+    world: World | null,
+    signal?: AbortSignal
+  ): Promise<string>;
+
+  // Translates lettering into another LANGUAGES code, one output per input, same order
+  translateTexts(
+    texts: string[],
+    language: string,
+    config: StoryConfig,
+    signal?: AbortSignal
+  ): Promise<string[]>;
+
+  // Falls back to the stored key when apiKey is omitted
+  listModels(apiKey?: string): Promise<ProviderModel[]>;
+
+  validateKey(apiKey: string): Promise<KeyValidationResult>;
+}
@@ -5,7 +5,7 @@
 */
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { ModelPreset, Persona, World } from '../types';
+import { ComicIssue, GenerationJob, ModelPreset, Persona, Series, World } from '../types';
 
 // Custom error class for permission-related errors
 class PermissionError extends Error {
@@ -32,6 +32,18 @@ interface HeroesDB extends DBSchema {
     key: string;
     value: { handle: FileSystemDirectoryHandle; timestamp: number };
   };
+  issues: {
+    key: string;
+    value: ComicIssue;
+  };
+  series: {
+    key: string;
+    value: Series;
+  };
+  jobs: {
+    key: string;
+    value: GenerationJob;
+  };
 }
 
 const DB_NAME = 'infinite-heroes-db';
@@ -39,6 +51,9 @@ const STORE_HEROES = 'heroes';
 const STORE_WORLDS = 'worlds';
 const STORE_PRESETS = 'presets';
 const STORE_CONNECTIONS = 'connections';
+const STORE_ISSUES = 'issues';
+const STORE_SERIES = 'series';
+const STORE_JOBS = 'jobs';
 
 let dbPromise: Promise<IDBPDatabase<HeroesDB>>;
 let rootHandle: any | null = null; // FileSystemDirectoryHandle
@@ -55,6 +70,10 @@ let worldsCache: (World & { timestamp: number })[] | null = null;
 let worldsCacheTimestamp = 0;
 let presetsCache: ModelPreset[] | null = null;
 let presetsCacheTimestamp = 0;
+let issuesCache: ComicIssue[] | null = null;
+let issuesCacheTimestamp = 0;
+let seriesCache: Series[] | null = null;
+let seriesCacheTimestamp = 0;
 
 const CACHE_TTL = 30000; // 30 seconds cache validity
 
@@ -64,7 +83,7 @@ const isCacheValid = (timestamp: number): boolean => {
 
 const initDB = () => {
   if (!dbPromise) {
-    dbPromise = openDB<HeroesDB>(DB_NAME, 4, {
+    dbPromise = openDB<HeroesDB>(DB_NAME, 7, {
       upgrade(db, oldVersion) {
         if (!db.objectStoreNames.contains(STORE_HEROES)) {
           db.createObjectStore(STORE_HEROES, { keyPath: 'id' });
@@ -78,6 +97,15 @@ const initDB = () => {
         if (oldVersion < 4 && !db.objectStoreNames.contains(STORE_CONNECTIONS)) {
           db.createObjectStore(STORE_CONNECTIONS, { keyPath: 'key' });
         }
+        if (oldVersion < 5 && !db.objectStoreNames.contains(STORE_ISSUES)) {
+          db.createObjectStore(STORE_ISSUES, { keyPath: 'id' });
+        }
+        if (oldVersion < 6 && !db.objectStoreNames.contains(STORE_SERIES)) {
+          db.createObjectStore(STORE_SERIES, { keyPath: 'id' });
+        }
+        if (oldVersion < 7 && !db.objectStoreNames.contains(STORE_JOBS)) {
+          db.createObjectStore(STORE_JOBS, { keyPath: 'id' });
+        }
       },
     });
   }
@@ -151,6 +179,8 @@ const ensureBaseStructure = async (handle: FileSystemDirectoryHandle) => {
     await handle.getDirectoryHandle('characters', { create: true });
     await handle.getDirectoryHandle('worlds', { create: true });
     await handle.getDirectoryHandle('presets', { create: true });
+    await handle.getDirectoryHandle('issues', { create: true });
+    await handle.getDirectoryHandle('series', { create: true });
     return true;
   } catch (e) {
     console.error('Failed to prepare base folder structure', e);
@@ -640,5 +670,285 @@ export const StorageService = {
     }
     const db = await initDB();
     await db.delete(STORE_PRESETS, id);
+  },
+  // --- ISSUES ---
+  async saveIssue(issue: ComicIssue): Promise<void> {
+    const data: ComicIssue = { ...issue, updatedAt: Date.now() };
+
+    // Invalidate cache
+    issuesCache = null;
+    issuesCacheTimestamp = 0;
+
+    if (rootHandle) {
+        const dir = await getSubDir('issues');
+        if (dir) {
+            await writeToFile(dir, `${issue.id}.json`, data);
+            return;
+        }
+    }
+
+    const db = await initDB();
+    await db.put(STORE_ISSUES, data);
+  },
+
+  async getIssues(): Promise<ComicIssue[]> {
+    // Check cache first
+    if (issuesCache && isCacheValid(issuesCacheTimestamp)) {
+      return issuesCache;
+    }
+
+    let fsItems: any[] = [];
+    let idbItems: any[] = [];
+    let idbError: unknown = null;
+    let fsError: unknown = null;
+
+    // 1. Try File System
+    if (rootHandle) {
+        try {
+            const dir = await getSubDir('issues');
+            if (dir) {
+              fsItems = await readFiles(dir);
+            } else {
+              console.warn("Could not access issues directory from file system, falling back to IndexedDB");
+            }
+        } catch (e) {
+            console.error("Failed to read issues from file system:", e);
+            fsError = e;
+            if (e instanceof PermissionError) {
+              console.warn("File system permission lost. Attempting to read from IndexedDB backup.");
+            }
+        }
+    }
+
+    // 2. Always read from IndexedDB to merge both sources
+    try {
+        const db = await initDB();
+        idbItems = await db.getAll(STORE_ISSUES);
+    } catch (e) {
+        console.error("Failed to read issues from IndexedDB:", e);
+        idbError = e;
+    }
+
+    // 3. Validate and normalize all items
+    const validateAndNormalize = (item: any): ComicIssue | null => {
+        if (!item?.id || typeof item.id !== 'string' || !Array.isArray(item.comicFaces) || !item.config) {
+            console.warn("Skipping issue with missing id, pages or config:", item?.id);
+            return null;
+        }
+
+        return {
+            id: item.id,
+            title: typeof item.title === 'string' && item.title ? item.title : 'Untitled Issue',
+            // Pages are persisted once finished, so nothing should come back mid-generation
+            comicFaces: item.comicFaces.map((face: any) => ({ ...face, isLoading: false })),
+            branches: Array.isArray(item.branches)
+                ? item.branches.map((branch: any) => ({
+                    ...branch,
+                    faces: Array.isArray(branch.faces) ? branch.faces.map((face: any) => ({ ...face, isLoading: false })) : [],
+                }))
+                : undefined,
+            activeBranchId: typeof item.activeBranchId === 'string' ? item.activeBranchId : undefined,
+            editions: Array.isArray(item.editions) ? item.editions.filter((edition: any) => typeof edition?.language === 'string' && Array.isArray(edition.pages)) : undefined,
+            hero: item.hero || null,
+            friend: item.friend || null,
+            world: item.world || null,
+            config: item.config,
+            createdAt: item.createdAt || 0,
+            updatedAt: item.updatedAt || 0
+        };
+    };
+
+    // 4. Merge and deduplicate (File System takes precedence over IDB)
+    const mergedMap = new Map<string, ComicIssue>();
+
+    idbItems.forEach(item => {
+        const normalized = validateAndNormalize(item);
+        if (normalized) {
+            mergedMap.set(normalized.id, normalized);
+        }
+    });
+
+    fsItems.forEach(item => {
+        const normalized = validateAndNormalize(item);
+        if (normalized) {
+            mergedMap.set(normalized.id, normalized);
+        }
+    });
+
+    const items = Array.from(mergedMap.values());
+
+    // If both sources failed and we have no items, throw the most relevant error
+    if (!items.length) {
+      if (fsError && idbError) {
+        throw new Error('Failed to load issues from both file system and local storage. Please check permissions and try reconnecting your library.');
+      } else if (fsError && rootHandle) {
+        console.warn('File system access failed, using IndexedDB only');
+        if (fsError instanceof PermissionError) {
+          throw new Error('Lost access to your library folder. Please reconnect to restore file system issues.');
+        }
+      } else if (idbError) {
+        throw idbError;
+      }
+    }
+
+    const sortedItems = items.sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
+
+    // Update cache
+    issuesCache = sortedItems;
+    issuesCacheTimestamp = Date.now();
+
+    return sortedItems;
+  },
+
+  async getIssue(id: string): Promise<ComicIssue | undefined> {
+    const issues = await this.getIssues();
+    return issues.find(issue => issue.id === id);
+  },
+
+  async deleteIssue(id: string): Promise<void> {
+    // Invalidate cache
+    issuesCache = null;
+    issuesCacheTimestamp = 0;
+    if (rootHandle) {
+        const dir = await getSubDir('issues');
+        if (dir) {
+            try {
+                await dir.removeEntry(`${id}.json`);
+            } catch (e) { console.warn('FS Delete error', e); }
+        }
+    }
+    const db = await initDB();
+    await db.delete(STORE_ISSUES, id);
+    await this.saveJobs(id, []);
+  },
+  // --- SERIES ---
+  async saveSeries(series: Series): Promise<void> {
+    const data: Series = { ...series, updatedAt: Date.now() };
+
+    // Invalidate cache
+    seriesCache = null;
+    seriesCacheTimestamp = 0;
+
+    if (rootHandle) {
+        const dir = await getSubDir('series');
+        if (dir) {
+            await writeToFile(dir, `${series.id}.json`, data);
+            return;
+        }
+    }
+
+    const db = await initDB();
+    await db.put(STORE_SERIES, data);
+  },
+
+  async getSeriesList(): Promise<Series[]> {
+    // Check cache first
+    if (seriesCache && isCacheValid(seriesCacheTimestamp)) {
+      return seriesCache;
+    }
+
+    let fsItems: any[] = [];
+    let idbItems: any[] = [];
+    let idbError: unknown = null;
+    let fsError: unknown = null;
+
+    if (rootHandle) {
+        try {
+            const dir = await getSubDir('series');
+            if (dir) {
+              fsItems = await readFiles(dir);
+            } else {
+              console.warn("Could not access series directory from file system, falling back to IndexedDB");
+            }
+        } catch (e) {
+            console.error("Failed to read series from file system:", e);
+            fsError = e;
+            if (e instanceof PermissionError) {
+              console.warn("File system permission lost. Attempting to read from IndexedDB backup.");
+            }
+        }
+    }
+
+    try {
+        const db = await initDB();
+        idbItems = await db.getAll(STORE_SERIES);
+    } catch (e) {
+        console.error("Failed to read series from IndexedDB:", e);
+        idbError = e;
+    }
+
+    const validateAndNormalize = (item: any): Series | null => {
+        if (!item?.id || typeof item.id !== 'string') {
+            console.warn("Skipping series with missing id:", item);
+            return null;
+        }
+
+        return {
+            id: item.id,
+            title: typeof item.title === 'string' && item.title ? item.title : 'Untitled Series',
+            issueIds: Array.isArray(item.issueIds) ? item.issueIds : [],
+            createdAt: item.createdAt || 0,
+            updatedAt: item.updatedAt || 0
+        };
+    };
+
+    // File System takes precedence over IDB
+    const mergedMap = new Map<string, Series>();
+    idbItems.forEach(item => {
+        const normalized = validateAndNormalize(item);
+        if (normalized) mergedMap.set(normalized.id, normalized);
+    });
+    fsItems.forEach(item => {
+        const normalized = validateAndNormalize(item);
+        if (normalized) mergedMap.set(normalized.id, normalized);
+    });
+
+    const items = Array.from(mergedMap.values());
+
+    // If both sources failed and we have no items, throw the most relevant error
+    if (!items.length) {
+      if (fsError && idbError) {
+        throw new Error('Failed to load series from both file system and local storage. Please check permissions and try reconnecting your library.');
+      } else if (fsError && rootHandle) {
+        console.warn('File system access failed, using IndexedDB only');
+        if (fsError instanceof PermissionError) {
+          throw new Error('Lost access to your library folder. Please reconnect to restore file system series.');
+        }
+      } else if (idbError) {
+        throw idbError;
+      }
+    }
+
+    const sortedItems = items.sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0));
+
+    // Update cache
+    seriesCache = sortedItems;
+    seriesCacheTimestamp = Date.now();
+
+    return sortedItems;
+  },
+
+  async getSeries(id: string): Promise<Series | undefined> {
+    const seriesList = await this.getSeriesList();
+    return seriesList.find(series => series.id === id);
+  },
+  // --- GENERATION JOBS ---
+  // Always IndexedDB: they are working state for this browser, not part of the library
+  async saveJobs(issueId: string, jobs: GenerationJob[]): Promise<void> {
+    const db = await initDB();
+    const tx = db.transaction(STORE_JOBS, 'readwrite');
+    const keep = new Set(jobs.map(job => job.id));
+    const stored = await tx.store.getAll();
+    await Promise.all([
+      ...stored.filter(job => job.issueId === issueId && !keep.has(job.id)).map(job => tx.store.delete(job.id)),
+      ...jobs.map(job => tx.store.put(job)),
+      tx.done,
+    ]);
+  },
+
+  async getJobs(issueId: string): Promise<GenerationJob[]> {
+    const db = await initDB();
+    const jobs = await db.getAll(STORE_JOBS);
+    return jobs.filter(job => job.issueId === issueId).sort((a, b) => a.createdAt - b.createdAt);
   }
 };
@@ -4,13 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-export const MAX_STORY_PAGES = 10;
-export const BACK_COVER_PAGE = 11;
-export const TOTAL_PAGES = 11;
+// Issue shape defaults; each story can override them in StoryConfig (see utils/issueLayout)
+export const DEFAULT_STORY_PAGES = 10;
+export const DEFAULT_DECISION_PAGES = [5]; // Moved deeper since user controls flow now
+export const MIN_STORY_PAGES = 4;
+export const MAX_STORY_PAGES = 60;
 export const INITIAL_PAGES = 2;
-export const GATE_PAGE = 2;
 export const BATCH_SIZE = 2; // Reduced for more granular control
-export const DECISION_PAGES = [5]; // Moved deeper since user controls flow now
+export const MAX_PAGE_TAKES = 5; // Versions kept per page by re-ink/rewrite (each holds a full image)
 
 // Timeout configuration for AI operations (in milliseconds)
 export const TIMEOUT_CONFIG = {
@@ -32,14 +33,14 @@ export const TONES = [
 
 export const LANGUAGES = [
     { code: 'en-US', name: 'English (US)' },
-    { code: 'ar-EG', name: 'Arabic (Egypt)' },
+    { code: 'ar-EG', name: 'Arabic (Egypt)', direction: 'rtl' },
     { code: 'de-DE', name: 'German (Germany)' },
     { code: 'es-MX', name: 'Spanish (Mexico)' },
     { code: 'fr-FR', name: 'French (France)' },
     { code: 'hi-IN', name: 'Hindi (India)' },
     { code: 'id-ID', name: 'Indonesian (Indonesia)' },
     { code: 'it-IT', name: 'Italian (Italy)' },
-    { code: 'ja-JP', name: 'Japanese (Japan)' },
+    { code: 'ja-JP', name: 'Japanese (Japan)', direction: 'rtl' }, // Manga order
     { code: 'ko-KR', name: 'Korean (South Korea)' },
     { code: 'pt-BR', name: 'Portuguese (Brazil)' },
     { code: 'ru-RU', name: 'Russian (Russia)' },
@@ -48,14 +49,65 @@ export const LANGUAGES = [
     { code: 'zh-CN', name: 'Chinese (China)' }
 ];
 
+export interface IssueFormat {
+  id: string;
+  name: string;
+  storyPages: number;
+  decisionPages: number[];
+}
+
+export const ISSUE_FORMATS: IssueFormat[] = [
+    { id: 'short', name: 'Short (6 pages)', storyPages: 6, decisionPages: [3] },
+    { id: 'classic', name: 'Classic (10 pages)', storyPages: DEFAULT_STORY_PAGES, decisionPages: DEFAULT_DECISION_PAGES },
+    { id: 'standard', name: 'Standard (22 pages)', storyPages: 22, decisionPages: [7, 15] },
+    { id: 'graphic-novel', name: 'Graphic Novel (40 pages)', storyPages: 40, decisionPages: [10, 20, 30] },
+];
+
+export type PageLayoutId = 'splash' | 'two-tier' | 'three-panel' | 'six-grid';
+
+// Panel cell in fractions of the page's live area (0..1)
+export interface PanelFrame {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface PageLayout {
+  id: PageLayoutId;
+  name: string;
+  frames: PanelFrame[];
+}
+
+export const PAGE_LAYOUTS: PageLayout[] = [
+    { id: 'splash', name: 'Splash (1 panel)', frames: [{ x: 0, y: 0, w: 1, h: 1 }] },
+    { id: 'two-tier', name: '2-Tier (2 panels)', frames: [{ x: 0, y: 0, w: 1, h: 0.5 }, { x: 0, y: 0.5, w: 1, h: 0.5 }] },
+    { id: 'three-panel', name: '3-Panel (wide + 2)', frames: [{ x: 0, y: 0, w: 1, h: 0.5 }, { x: 0, y: 0.5, w: 0.5, h: 0.5 }, { x: 0.5, y: 0.5, w: 0.5, h: 0.5 }] },
+    { id: 'six-grid', name: '6-Grid (6 panels)', frames: [0, 1, 2].flatMap(row => [0, 1].map(col => ({ x: col / 2, y: row / 3, w: 1 / 2, h: 1 / 3 }))) },
+];
+
+// One panel of a multi-panel page, in reading order
+export interface PanelBeat {
+  caption?: string;
+  dialogue?: string;
+  scene: string;
+  focus_char: 'hero' | 'friend' | 'other';
+}
+
 export interface Beat {
   caption?: string;
   dialogue?: string;
   scene: string;
   choices: string[];
   focus_char: 'hero' | 'friend' | 'other';
+  edited?: boolean; // Hand-edited in script review; pages written after it must not come from the beat cache
+  fallback?: boolean; // Stand-in written because the model's reply failed validation even after a repair
+  panels?: PanelBeat[]; // Set for multi-panel layouts; top-level fields summarize the whole page
 }
 
+// Caption and dialogue of a beat still streaming in, for the live script preview
+export type BeatPreview = Partial<Pick<Beat, 'caption' | 'dialogue'>>;
+
 export interface Persona {
   base64: string; // Primary/first image for backward compatibility
   images?: string[]; // Optional: All images including primary (Max 3 for Gemini 3 Pro)
@@ -71,6 +123,32 @@ export interface World {
   linkedPersonaIds: string[];
 }
 
+/**
+ * Caption box or speech balloon lettered over textless art. Positions are
+ * fractions of the page so the same lettering fits any render size.
+ */
+export interface LetteringElement {
+  id: string;
+  kind: 'caption' | 'balloon';
+  text: string;
+  x: number;      // Left edge
+  y: number;      // Top edge
+  width: number;
+  tail?: { x: number; y: number }; // Point the balloon's tail aims at
+}
+
+export type LetteringMode = 'overlay' | 'in-art';
+
+export type ReadingDirection = 'ltr' | 'rtl';
+
+// One rendition of a page, kept so the reader can flip back to an earlier take
+export interface PageTake {
+  imageUrl: string;
+  narrative?: Beat;
+  lettering?: LetteringElement[];
+  createdAt: number;
+}
+
 export interface ComicFace {
   id: string;
   type: 'cover' | 'story' | 'back_cover';
@@ -81,9 +159,84 @@ export interface ComicFace {
   isLoading: boolean;
   pageIndex: number;
   isDecisionPage?: boolean;
+  // Set once a page has been re-inked or rewritten; imageUrl/narrative mirror takes[activeTake]
+  takes?: PageTake[];
+  activeTake?: number;
+  // Present when the art was drawn without text; rendered by the lettering layer
+  lettering?: LetteringElement[];
+}
+
+/**
+ * One line of the story tree. The trunk starts at the cover; every other
+ * branch forks from a decision page of its parent with a different choice.
+ * `faces` holds only the pages the branch owns (pageIndex > forkPage).
+ */
+export interface StoryBranch {
+  id: string;
+  parentId: string | null;
+  forkPage: number; // -1 for the trunk
+  choice?: string;  // Choice taken on the parent's forkPage
+  faces: ComicFace[];
+  createdAt: number;
 }
 
-export type AIProvider = 'gemini' | 'openrouter';
+// Translated text of one page in a language edition; the art is shared with the original
+export interface EditionPage {
+  pageIndex: number;
+  narrative?: Beat;
+  choices: string[];
+  resolvedChoice?: string;
+  lettering?: LetteringElement[];
+}
+
+/**
+ * The same issue re-lettered in another language. Pages follow the branch
+ * that was on screen when it was translated.
+ */
+export interface IssueEdition {
+  language: string; // LANGUAGES code
+  branchId: string;
+  pages: EditionPage[];
+  createdAt: number;
+}
+
+// File formats a finished issue can be downloaded in
+export type ExportFormat = 'pdf' | 'cbz' | 'epub' | 'strip';
+
+export interface ComicIssue {
+  id: string;
+  title: string;
+  comicFaces: ComicFace[]; // Pages of the active branch, cover to last page
+  branches?: StoryBranch[]; // Present once the reader has explored an alternate choice
+  activeBranchId?: string;
+  editions?: IssueEdition[]; // Translated editions of the same art
+  hero: Persona | null;
+  friend: Persona | null;
+  world: World | null;
+  config: StoryConfig;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  issueIds: string[]; // Ordered: index 0 is Issue #1
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Carried in StoryConfig so every generation call of a follow-up issue knows where it sits in the series
+export interface SeriesContinuity {
+  seriesId: string;
+  seriesTitle: string;
+  issueNumber: number;
+  previousRecap?: string; // Summary of the previous issue, including the reader's resolved choices
+}
+
+export type BuiltInProvider = 'gemini' | 'openrouter' | 'local' | 'stable-diffusion' | 'mock';
+// Open-ended so backends registered at runtime (see services/providers/registry) are valid ids
+export type AIProvider = BuiltInProvider | (string & {});
 
 export interface ModelParameters {
   temperature?: number;
@@ -105,7 +258,9 @@ export interface StoryConfig {
   modelPresetModel: string;
   modelPresetPrompt: string;
   // Provider configuration
-  aiProvider: AIProvider;
+  aiProvider: AIProvider; // Default backend for any role without its own override
+  textProvider?: AIProvider;  // Writes beats (falls back to aiProvider)
+  imageProvider?: AIProvider; // Draws personas and panels (falls back to aiProvider)
   textModel: string;  // Model for text generation
   imageModel: string; // Model for image generation
   // Model parameters
@@ -114,12 +269,24 @@ export interface StoryConfig {
   // Separate prompts for text and image
   textPrompt: string;
   imagePrompt: string;
+  // Series continuity (absent for standalone issues)
+  continuity?: SeriesContinuity;
+  // Pause after each beat so the script can be edited before it is inked
+  reviewScript?: boolean;
+  // Issue shape (defaults to DEFAULT_STORY_PAGES / DEFAULT_DECISION_PAGES when absent)
+  storyPages?: number;
+  decisionPages?: number[];
+  pageLayout?: PageLayoutId; // Panel layout of story pages; splash when absent
+  letteringMode?: LetteringMode; // Overlay (textless art + lettering layer) when absent
+  readingDirection?: ReadingDirection; // Follows the language when absent
 }
 
 export interface ModelPreset {
   id: string;
   name: string;
   provider: AIProvider;
+  textProvider?: AIProvider;
+  imageProvider?: AIProvider;
   textModel: string;
   imageModel: string;
   textPrompt: string;
@@ -133,6 +300,46 @@ export interface ModelPreset {
   updatedAt: number;
 }
 
+// Where one page of a batch is: beats are written in order, inking runs in parallel
+export type PageGenerationState = 'queued' | 'writing' | 'reviewing' | 'casting' | 'waiting-ink' | 'inking' | 'done' | 'failed';
+
+export interface PageProgress {
+    pageIndex: number;
+    state: PageGenerationState;
+    panel?: number; // Panel being drawn on multi-panel pages
+    panelCount?: number;
+}
+
+// One unit of generation work, run by services/jobQueue.ts and kept in IndexedDB until it finishes
+export type GenerationJobKind = 'persona' | 'beat' | 'image' | 'cover' | 'back_cover';
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface GenerationJob {
+    id: string;
+    kind: GenerationJobKind;
+    issueId: string;
+    branchId: string;
+    pageIndex: number;
+    priority: number;     // Higher runs first within its lane
+    status: GenerationJobStatus;
+    dependsOn: string[];  // Jobs that must be done before this one starts
+    attempts: number;
+    error?: string;
+    createdAt: number;
+    updatedAt: number;
+    // Inputs, stored with the job so it can run again after a reload
+    guidance?: string;
+    isDecisionPage?: boolean;
+    beat?: Beat;          // Script an image job draws; the script a beat job wrote
+    take?: 'reink' | 'rewrite'; // Adds a take to a finished page instead of filling a new one
+    speculative?: boolean; // Written ahead of the director and dropped if they steer elsewhere
+    // Live detail for the progress display
+    preview?: BeatPreview;
+    reviewing?: boolean;
+    panel?: number;
+    panelCount?: number;
+}
+
 export interface LoadingProgress {
     current: number;
     total: number;
@@ -140,6 +347,7 @@ export interface LoadingProgress {
     substep?: string; // Optional detailed substep description
     percentage?: number; // Calculated percentage (0-100)
     startTime?: number; // Timestamp when progress started
+    pages?: PageProgress[]; // Per-page state of a generation batch
 }
 
 // Error Types
@@ -170,6 +378,13 @@ export interface Notification {
   duration?: number; // Auto-dismiss after ms (0 = no auto-dismiss)
 }
 
+// A written beat waiting for the reader's edits before it is inked (script review mode)
+export interface ScriptReview {
+  pageIndex: number;
+  beat: Beat;
+  isDecisionPage: boolean;
+}
+
 // Reducer & Context Types
 export type EngineStatus = 'idle' | 'setup' | 'generating' | 'reading' | 'error';
 
@@ -182,9 +397,17 @@ export interface ComicState {
   currentWorld: World | null;
   availableWorlds: World[];
   config: StoryConfig;
+  currentIssue: { id: string; createdAt: number } | null;
   loadingProgress: LoadingProgress | null;
   error: string | null;
   notifications: Notification[];
+  scriptReview: ScriptReview | null;
+  branches: StoryBranch[]; // Empty until the first alternate choice is explored
+  activeBranchId: string;
+  editions: IssueEdition[];
+  activeEdition: string | null; // Language being read; null for the original
+  jobs: GenerationJob[]; // Generation queue, including failed jobs waiting for a retry
+  prefetchedFaces: ComicFace[]; // Pages made ahead of the director, hidden until the reader carries on without new guidance
 }
 
 export type ComicAction =
@@ -197,13 +420,25 @@ export type ComicAction =
   | { type: 'ADD_WORLD'; payload: World }
   | { type: 'DELETE_WORLD'; payload: string }
   | { type: 'UPDATE_CONFIG'; payload: Partial<StoryConfig> }
-  | { type: 'START_ADVENTURE' }
+  | { type: 'START_ADVENTURE'; payload: { issueId: string } }
+  | { type: 'LOAD_ISSUE'; payload: ComicIssue }
+  | { type: 'PREPARE_NEXT_ISSUE'; payload: SeriesContinuity }
   | { type: 'TRANSITION_COMPLETE' }
   | { type: 'CANCEL_GENERATION'; payload?: { status?: EngineStatus } }
   | { type: 'ADD_FACES'; payload: ComicFace[] }
   | { type: 'UPDATE_FACE'; payload: { id: string; updates: Partial<ComicFace> } }
   | { type: 'SET_SHEET_INDEX'; payload: number }
   | { type: 'SET_LOADING_PROGRESS'; payload: LoadingProgress | null }
+  | { type: 'SET_JOBS'; payload: GenerationJob[] }
+  | { type: 'ADD_PREFETCHED_FACES'; payload: ComicFace[] }
+  | { type: 'ADOPT_PREFETCHED' }
+  | { type: 'DISCARD_PREFETCHED' }
+  | { type: 'SET_SCRIPT_REVIEW'; payload: ScriptReview | null }
+  | { type: 'CREATE_BRANCH'; payload: StoryBranch }
+  | { type: 'SWITCH_BRANCH'; payload: string }
+  | { type: 'ADD_EDITION'; payload: IssueEdition }
+  | { type: 'SET_ACTIVE_EDITION'; payload: string | null }
+  | { type: 'UPDATE_EDITION_PAGE'; payload: { language: string; pageIndex: number; updates: Partial<EditionPage> } }
   | { type: 'SET_ERROR'; payload: string }
   | { type: 'ADD_NOTIFICATION'; payload: Notification }
   | { type: 'REMOVE_NOTIFICATION'; payload: string }
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ComicFace, StoryBranch } from '../types';
+
+export const TRUNK_BRANCH_ID = 'main';
+
+const byPage = (a: ComicFace, b: ComicFace) => (a.pageIndex || 0) - (b.pageIndex || 0);
+
+/**
+ * The trunk, created the first time a reader forks the story.
+ */
+export function createTrunk(faces: ComicFace[]): StoryBranch {
+  return { id: TRUNK_BRANCH_ID, parentId: null, forkPage: -1, faces, createdAt: Date.now() };
+}
+
+/**
+ * Branches from the trunk down to `branchId`, in reading order.
+ */
+export function getBranchLineage(branches: StoryBranch[], branchId: string): StoryBranch[] {
+  const lineage: StoryBranch[] = [];
+  let current = branches.find(b => b.id === branchId);
+  while (current && !lineage.includes(current)) {
+    lineage.unshift(current);
+    const parentId: string | null = current.parentId;
+    current = parentId ? branches.find(b => b.id === parentId) : undefined;
+  }
+  return lineage;
+}
+
+/**
+ * Pages a lineage member contributes to the path: everything it owns up to
+ * the point where the next branch in the lineage forks off.
+ */
+const getVisibleRange = (lineage: StoryBranch[], depth: number) => {
+  const branch = lineage[depth]!;
+  const next = lineage[depth + 1];
+  return { from: branch.forkPage, to: next ? next.forkPage : Infinity, next };
+};
+
+/**
+ * Linear pages of one branch, cover first. The fork page shows the choice
+ * that leads into the next branch down the lineage.
+ */
+export function composeBranchPath(branches: StoryBranch[], branchId: string): ComicFace[] {
+  const lineage = getBranchLineage(branches, branchId);
+  const faces: ComicFace[] = [];
+
+  lineage.forEach((branch, depth) => {
+    const { from, to, next } = getVisibleRange(lineage, depth);
+    branch.faces
+      .filter(face => face.pageIndex > from && face.pageIndex <= to)
+      .forEach(face => faces.push(next && face.pageIndex === next.forkPage ? { ...face, resolvedChoice: next.choice } : face));
+  });
+
+  return faces.sort(byPage);
+}
+
+/**
+ * Writes the pages on screen back into the branches that own them, so edits
+ * made while reading a branch (new pages, re-inks) survive a switch. Fork
+ * pages keep their owner's own choice rather than the one shown on screen.
+ */
+export function stashBranchPath(branches: StoryBranch[], branchId: string, faces: ComicFace[]): StoryBranch[] {
+  const lineage = getBranchLineage(branches, branchId);
+
+  return branches.map(branch => {
+    const depth = lineage.indexOf(branch);
+    if (depth === -1) return branch;
+
+    const { from, to, next } = getVisibleRange(lineage, depth);
+    const visible = faces
+      .filter(face => face.pageIndex > from && face.pageIndex <= to)
+      .map(face => {
+        if (!next || face.pageIndex !== next.forkPage) return face;
+        const own = branch.faces.find(f => f.pageIndex === face.pageIndex);
+        return { ...face, resolvedChoice: own?.resolvedChoice };
+      });
+    const hidden = branch.faces.filter(face => face.pageIndex > to);
+
+    return { ...branch, faces: [...visible, ...hidden].sort(byPage) };
+  });
+}
+
+/**
+ * Branch that continues the story with `choice` on `pageIndex`, as seen from
+ * the active branch: the owner of that page when it already took the choice,
+ * or one of its children. Returns the owner too so a new branch can fork from it.
+ */
+export function findBranchForChoice(
+  branches: StoryBranch[],
+  activeBranchId: string,
+  pageIndex: number,
+  choice: string
+): { owner: StoryBranch | undefined; target: StoryBranch | undefined } {
+  const lineage = getBranchLineage(branches, activeBranchId);
+  const owner = [...lineage].reverse().find(branch => branch.forkPage < pageIndex);
+  if (!owner) return { owner, target: undefined };
+
+  const ownChoice = owner.faces.find(face => face.pageIndex === pageIndex)?.resolvedChoice;
+  if (ownChoice === choice) return { owner, target: owner };
+
+  const target = branches.find(b => b.parentId === owner.id && b.forkPage === pageIndex && b.choice === choice);
+  return { owner, target };
+}
+
+/**
+ * Short name for navigators and file names.
+ */
+export function getBranchLabel(branch: StoryBranch): string {
+  return branch.parentId ? `Page ${branch.forkPage}: ${branch.choice ?? 'Alternate'}` : 'Main story';
+}
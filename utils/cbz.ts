@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Zippable, strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { ComicFace, ComicIssue, LANGUAGES, MAX_STORY_PAGES, ReadingDirection, StoryConfig } from '../types';
+import { getIssueLayout } from './issueLayout';
+
+/**
+ * Metadata written to ComicInfo.xml, the sidecar most comic readers
+ * (Komga, Kavita, CDisplayEx, Tachiyomi...) use to catalogue a CBZ.
+ */
+export interface ComicInfo {
+  title: string;
+  series?: string;
+  number?: number;
+  writer?: string; // Model that wrote the script
+  genre?: string;
+  language?: string; // LANGUAGES code
+  summary?: string;
+  direction?: ReadingDirection;
+}
+
+export interface CbzPage {
+  face: ComicFace;
+  imageUrl: string;
+}
+
+export interface CbzArchive {
+  info: Partial<ComicInfo>;
+  pages: Array<{ imageUrl: string; type?: string }>;
+}
+
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+const PAGE_TYPES: Record<ComicFace['type'], string> = {
+  cover: 'FrontCover',
+  story: 'Story',
+  back_cover: 'BackCover',
+};
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+export const getExtension = (mimeType: string) =>
+  Object.keys(IMAGE_EXTENSIONS).find(ext => IMAGE_EXTENSIONS[ext] === mimeType) ?? 'jpg';
+
+/**
+ * ComicInfo.xml following the Anansi ComicInfo 2.0 schema. Empty fields are
+ * left out rather than written blank.
+ */
+export function buildComicInfo(info: ComicInfo, pages: CbzPage[]): string {
+  const fields: Array<[string, string | number | undefined]> = [
+    ['Title', info.title],
+    ['Series', info.series],
+    ['Number', info.number],
+    ['Summary', info.summary],
+    ['Writer', info.writer],
+    ['Genre', info.genre],
+    ['LanguageISO', info.language?.split('-')[0]],
+    ['PageCount', pages.length],
+    ['Manga', info.direction === 'rtl' ? 'YesAndRightToLeft' : undefined],
+  ];
+  const body = fields
+    .filter((field): field is [string, string | number] => field[1] !== undefined && field[1] !== '')
+    .map(([name, value]) => `  <${name}>${escapeXml(String(value))}</${name}>`)
+    .join('\n');
+  const pageList = pages
+    .map(({ face }, i) => `    <Page Image="${i}" Type="${PAGE_TYPES[face.type]}" />`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+${body}
+  <Pages>
+${pageList}
+  </Pages>
+</ComicInfo>
+`;
+}
+
+/**
+ * Zips the pages in reading order as 001.jpg, 002.jpg... with ComicInfo.xml
+ * alongside. Images are stored uncompressed; they are compressed already.
+ */
+export async function buildCbz(pages: CbzPage[], info: ComicInfo): Promise<Blob> {
+  const files: Zippable = {};
+  const digits = Math.max(3, String(pages.length).length);
+
+  for (const [i, page] of pages.entries()) {
+    const blob = await (await fetch(page.imageUrl)).blob();
+    const name = `${String(i + 1).padStart(digits, '0')}.${getExtension(blob.type)}`;
+    files[name] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+  }
+  files['ComicInfo.xml'] = strToU8(buildComicInfo(info, pages));
+
+  // Copied into a plain ArrayBuffer-backed array, which is what Blob accepts
+  return new Blob([zipSync(files).slice()], { type: 'application/vnd.comicbook+zip' });
+}
+
+export const toDataUrl = (bytes: Uint8Array, mimeType: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'));
+    reader.readAsDataURL(new Blob([bytes.slice()], { type: mimeType }));
+  });
+
+const parseComicInfo = (xml: string): { info: Partial<ComicInfo>; pageTypes: string[] } => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) return { info: {}, pageTypes: [] };
+
+  const read = (name: string) => doc.getElementsByTagName(name)[0]?.textContent?.trim() || undefined;
+  const iso = read('LanguageISO')?.toLowerCase();
+  const number = Number(read('Number'));
+  const pageTypes: string[] = [];
+  Array.from(doc.getElementsByTagName('Page')).forEach(page => {
+    const index = Number(page.getAttribute('Image'));
+    if (Number.isInteger(index) && index >= 0) pageTypes[index] = page.getAttribute('Type') ?? '';
+  });
+
+  return {
+    info: {
+      title: read('Title'),
+      series: read('Series'),
+      number: Number.isInteger(number) && number > 0 ? number : undefined,
+      writer: read('Writer'),
+      genre: read('Genre'),
+      summary: read('Summary'),
+      // "ar" or "ar-EG" both map to the app's Arabic
+      language: iso ? LANGUAGES.find(l => l.code.toLowerCase() === iso || l.code.split('-')[0] === iso)?.code : undefined,
+      direction: read('Manga') === 'YesAndRightToLeft' ? 'rtl' : undefined,
+    },
+    pageTypes,
+  };
+};
+
+/**
+ * Reads a CBZ from any source: image entries in natural name order, plus
+ * ComicInfo.xml when present. Deflated and stored entries are both fine.
+ */
+export async function readCbz(file: Blob): Promise<CbzArchive> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    throw new Error(`CBZ_INVALID: Not a readable comic archive (${error instanceof Error ? error.message : 'unknown error'})`);
+  }
+
+  const names = Object.keys(entries)
+    .filter(name => !name.startsWith('__MACOSX/') && !name.split('/').pop()?.startsWith('.'))
+    .filter(name => IMAGE_EXTENSIONS[name.split('.').pop()?.toLowerCase() ?? ''])
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+  if (names.length === 0) throw new Error('CBZ_INVALID: The archive has no page images.');
+
+  const infoName = Object.keys(entries).find(name => name.split('/').pop()?.toLowerCase() === 'comicinfo.xml');
+  const { info, pageTypes } = infoName ? parseComicInfo(strFromU8(entries[infoName]!)) : { info: {}, pageTypes: [] };
+
+  const pages = await Promise.all(names.map(async (name, i) => ({
+    imageUrl: await toDataUrl(entries[name]!, IMAGE_EXTENSIONS[name.split('.').pop()!.toLowerCase()]!),
+    type: pageTypes[i],
+  })));
+  return { info, pages };
+}
+
+/**
+ * Rebuilds an issue from an archive so it can be read and re-exported. The
+ * first image is the cover and the last the back cover (or whatever
+ * ComicInfo says it is); everything between is a story page. The text is
+ * part of the art, so the issue is opened with in-art lettering.
+ */
+export function buildIssueFromCbz(archive: CbzArchive, baseConfig: StoryConfig): ComicIssue {
+  const { info, pages } = archive;
+  const last = pages[pages.length - 1];
+  const hasBackCover = pages.length > 2 && (last?.type ? last.type === 'BackCover' : true);
+  const storyImages = pages.slice(1, hasBackCover ? -1 : undefined);
+  if (storyImages.length > MAX_STORY_PAGES) {
+    throw new Error(`CBZ_TOO_LONG: Issues can have up to ${MAX_STORY_PAGES} story pages; this archive has ${storyImages.length}.`);
+  }
+
+  const config: StoryConfig = {
+    ...baseConfig,
+    genre: info.genre || baseConfig.genre,
+    language: info.language || baseConfig.language,
+    readingDirection: info.direction,
+    storyPages: storyImages.length,
+    decisionPages: [],
+    continuity: undefined,
+    pageLayout: undefined,
+    letteringMode: 'in-art',
+  };
+  // Short archives still close with the back cover on the book's last page
+  const { backCoverPage } = getIssueLayout(config);
+
+  const comicFaces: ComicFace[] = [
+    { id: 'cover', type: 'cover', imageUrl: pages[0]!.imageUrl, choices: [], isLoading: false, pageIndex: 0 },
+    ...storyImages.map((page, i): ComicFace => ({
+      id: `page-${i + 1}`,
+      type: 'story',
+      imageUrl: page.imageUrl,
+      choices: [],
+      isLoading: false,
+      pageIndex: i + 1,
+    })),
+  ];
+  if (hasBackCover && last) {
+    comicFaces.push({ id: `page-${backCoverPage}`, type: 'back_cover', imageUrl: last.imageUrl, choices: [], isLoading: false, pageIndex: backCoverPage });
+  }
+
+  const now = Date.now();
+  const seriesTitle = info.series && info.number ? `${info.series} #${info.number}` : info.series;
+  return {
+    id: `issue-${now}`,
+    title: info.title || seriesTitle || 'Imported Issue',
+    comicFaces,
+    hero: null,
+    friend: null,
+    world: null,
+    config,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ComicFace, Persona, SeriesContinuity, StoryConfig } from '../types';
+
+// Keeps the recap small enough to ride along with every beat prompt
+const MAX_RECAP_LENGTH = 1200;
+
+/**
+ * Builds a plain-text recap of an issue from its story beats and the
+ * reader's resolved choices. Deterministic on purpose: it runs offline and
+ * never spends an extra model call between issues.
+ */
+export function buildIssueRecap(faces: ComicFace[]): string {
+  const storyPages = faces
+    .filter(face => face.type === 'story' && face.narrative)
+    .sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0));
+
+  const lines = storyPages.map(face => {
+    const beat = face.narrative!;
+    const text = [beat.caption, beat.dialogue ? `"${beat.dialogue}"` : ''].filter(Boolean).join(' ');
+    const choice = face.resolvedChoice ? ` The reader chose: "${face.resolvedChoice}".` : '';
+    return `Page ${face.pageIndex}: ${text || beat.scene}${choice}`;
+  });
+
+  // The ending matters most for the next issue, so trim from the front
+  let recap = lines.join('\n');
+  while (recap.length > MAX_RECAP_LENGTH && lines.length > 1) {
+    lines.shift();
+    recap = `...\n${lines.join('\n')}`;
+  }
+  return recap.length > MAX_RECAP_LENGTH ? recap.slice(-MAX_RECAP_LENGTH) : recap;
+}
+
+/**
+ * Display title of an issue within its series, e.g. "NIGHT WATCH #2".
+ */
+export function getIssueLabel(continuity: SeriesContinuity): string {
+  return `${continuity.seriesTitle} #${continuity.issueNumber}`;
+}
+
+/**
+ * Title an issue is filed and exported under: its series label, or the hero
+ * and genre for a standalone issue.
+ */
+export function getIssueTitle(config: Pick<StoryConfig, 'continuity' | 'genre'>, hero: Persona | null): string {
+  if (config.continuity) return getIssueLabel(config.continuity);
+  return `${hero?.name || 'Untitled Hero'} · ${config.genre === 'Custom' ? 'Original Story' : config.genre}`;
+}
+
+/**
+ * Prompt section telling the writer model where this issue sits in its series.
+ * Returns an empty string for standalone issues.
+ */
+export function describeContinuity(continuity: SeriesContinuity | undefined, pageNum: number): string {
+  if (!continuity || continuity.issueNumber <= 1 || !continuity.previousRecap) return '';
+
+  let section = `
+SERIES CONTINUITY: This is ISSUE #${continuity.issueNumber} of "${continuity.seriesTitle}".
+PREVIOUSLY IN ISSUE #${continuity.issueNumber - 1} (CANON - DO NOT CONTRADICT):
+${continuity.previousRecap}
+`;
+  if (pageNum === 1) {
+    section += "PICK UP DIRECTLY FROM THE PREVIOUS ISSUE'S CLIFFHANGER. Honor the reader's earlier choices and their consequences.\n";
+  }
+  return section;
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Beat, ComicFace, ComicState, EditionPage, IssueEdition } from '../types';
+
+/**
+ * Text-bearing parts of the story pages, the starting point of a translation.
+ */
+export function getEditionSource(faces: ComicFace[]): EditionPage[] {
+  return faces
+    .filter(face => face.type === 'story' && face.narrative)
+    .map(face => ({
+      pageIndex: face.pageIndex,
+      narrative: face.narrative,
+      choices: face.choices,
+      resolvedChoice: face.resolvedChoice,
+      lettering: face.lettering,
+    }));
+}
+
+const mapBeat = (beat: Beat, fn: (text: string) => string): Beat => ({
+  ...beat,
+  caption: beat.caption && fn(beat.caption),
+  dialogue: beat.dialogue && fn(beat.dialogue),
+  choices: beat.choices.map(fn),
+  panels: beat.panels?.map(panel => ({
+    ...panel,
+    caption: panel.caption && fn(panel.caption),
+    dialogue: panel.dialogue && fn(panel.dialogue),
+  })),
+});
+
+/**
+ * Runs every reader-facing string of the pages through `fn`. Scenes are art
+ * direction and stay in English.
+ */
+export function mapEditionTexts(pages: EditionPage[], fn: (text: string) => string): EditionPage[] {
+  return pages.map(page => ({
+    ...page,
+    narrative: page.narrative && mapBeat(page.narrative, fn),
+    choices: page.choices.map(fn),
+    resolvedChoice: page.resolvedChoice && fn(page.resolvedChoice),
+    lettering: page.lettering?.map(element => ({ ...element, text: fn(element.text) })),
+  }));
+}
+
+/**
+ * Distinct strings to translate; captions usually reappear in the lettering,
+ * and choices in the resolved choice.
+ */
+export function collectEditionTexts(pages: EditionPage[]): string[] {
+  const texts = new Set<string>();
+  mapEditionTexts(pages, text => {
+    if (text.trim()) texts.add(text);
+    return text;
+  });
+  return Array.from(texts);
+}
+
+/**
+ * Edition being read on the current branch, if any.
+ */
+export function getActiveEdition(state: Pick<ComicState, 'editions' | 'activeEdition' | 'activeBranchId'>): IssueEdition | undefined {
+  if (!state.activeEdition) return undefined;
+  return state.editions.find(edition => edition.language === state.activeEdition && edition.branchId === state.activeBranchId);
+}
+
+/**
+ * Faces with an edition's text in place of the original. Pages written after
+ * the translation keep their original text.
+ */
+export function applyEdition(faces: ComicFace[], edition: IssueEdition | undefined): ComicFace[] {
+  if (!edition) return faces;
+  const pages = new Map(edition.pages.map(page => [page.pageIndex, page]));
+  return faces.map(face => {
+    const page = pages.get(face.pageIndex);
+    return page ? { ...face, ...page } : face;
+  });
+}
@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Zippable, strToU8, zipSync } from 'fflate';
+import { Beat, ComicFace, LetteringElement, ReadingDirection } from '../types';
+import { escapeXml } from './cbz';
+import {
+  LETTERING_PAGE_HEIGHT,
+  LETTERING_PAGE_WIDTH,
+  LETTERING_STROKE,
+  getLetteringFill,
+  getLinePosition,
+  getTailPoints,
+  measureLettering
+} from './lettering';
+
+export interface EpubInfo {
+  identifier: string; // Stable per issue, branch and language so readers update rather than duplicate
+  title: string;
+  language: string; // LANGUAGES code
+  creator?: string;
+  description?: string;
+  direction: ReadingDirection;
+}
+
+// Pages are laid out on the lettering page, so balloon coordinates carry over unchanged
+const PAGE_WIDTH = LETTERING_PAGE_WIDTH;
+const PAGE_HEIGHT = LETTERING_PAGE_HEIGHT;
+
+const STYLESHEET = `html, body { margin: 0; padding: 0; }
+.page { position: relative; width: ${PAGE_WIDTH}px; height: ${PAGE_HEIGHT}px; overflow: hidden; background: #0a0a0a; }
+.page img, .page svg { position: absolute; top: 0; left: 0; width: ${PAGE_WIDTH}px; height: ${PAGE_HEIGHT}px; }
+.page svg text { font-family: 'Comic Neue', sans-serif; font-weight: bold; }
+.script { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }
+`;
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const IMAGE_TYPES: Record<string, string> = { 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+const BODY_TYPES: Record<ComicFace['type'], string> = { cover: 'cover', story: 'bodymatter', back_cover: 'backmatter' };
+
+const pageName = (face: ComicFace) => `page-${String(face.pageIndex).padStart(3, '0')}`;
+
+const getPageLabel = (face: ComicFace) =>
+  face.type === 'cover' ? 'Cover' : face.type === 'back_cover' ? 'Back Cover' : `Page ${face.pageIndex}`;
+
+/**
+ * Caption and dialogue of a page in reading order. Multi-panel pages carry
+ * their text per panel; the top-level beat only summarizes them.
+ */
+const getScriptLines = (beat: Beat): Array<{ kind: 'caption' | 'dialogue'; text: string }> => {
+  const panels = beat.panels?.some(panel => panel.caption || panel.dialogue) ? beat.panels : [beat];
+  return panels.flatMap(panel => [
+    ...(panel.caption ? [{ kind: 'caption' as const, text: panel.caption }] : []),
+    ...(panel.dialogue ? [{ kind: 'dialogue' as const, text: panel.dialogue }] : []),
+  ]);
+};
+
+const renderLettering = (elements: LetteringElement[], direction: ReadingDirection): string => {
+  const shapes = elements.map(element => {
+    const box = measureLettering(element);
+    const fill = getLetteringFill(element.kind);
+    const tail = element.kind === 'balloon' && element.tail ? getTailPoints(box, element.tail) : null;
+    const tailPoints = tail?.map(point => point.join(',')).join(' ');
+    const rect = `x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="${box.radius}"`;
+    const anchor = element.kind === 'balloon' ? 'middle' : 'start';
+    const lines = box.lines.map((line, i) => {
+      const { x, y } = getLinePosition(box, element.kind, i, direction);
+      return `<tspan x="${x}" y="${y}">${escapeXml(line)}</tspan>`;
+    }).join('');
+
+    // Outlines first, then fills, as in the reader
+    return [
+      tailPoints && `<polygon points="${tailPoints}" fill="none" stroke="#000" stroke-width="${LETTERING_STROKE}" stroke-linejoin="round"/>`,
+      `<rect ${rect} fill="none" stroke="#000" stroke-width="${LETTERING_STROKE}"/>`,
+      tailPoints && `<polygon points="${tailPoints}" fill="${fill}"/>`,
+      `<rect ${rect} fill="${fill}"/>`,
+      `<text font-size="${box.fontSize}" text-anchor="${anchor}" direction="${direction}">${lines}</text>`,
+    ].filter(Boolean).join('\n      ');
+  });
+
+  // The same words are in the page's script, so assistive tech reads them once
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}" aria-hidden="true">
+      ${shapes.join('\n      ')}
+    </svg>`;
+};
+
+const renderPage = (face: ComicFace, imageFile: string, info: EpubInfo): string => {
+  const beat = face.narrative;
+  const alt = face.type === 'cover' ? `Cover of ${info.title}` : beat?.scene ?? getPageLabel(face);
+  const script = [
+    ...(beat ? getScriptLines(beat) : []).map(line =>
+      line.kind === 'caption' ? `<p class="caption">${escapeXml(line.text)}</p>` : `<p class="dialogue">${escapeXml(line.text)}</p>`),
+    ...(face.resolvedChoice ? [`<p class="choice">${escapeXml(face.resolvedChoice)}</p>`] : []),
+  ];
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${info.language}" lang="${info.language}" dir="${info.direction}">
+<head>
+  <meta charset="utf-8"/>
+  <meta name="viewport" content="width=${PAGE_WIDTH}, height=${PAGE_HEIGHT}"/>
+  <title>${escapeXml(getPageLabel(face))}</title>
+  <link rel="stylesheet" type="text/css" href="../styles/comic.css"/>
+</head>
+<body epub:type="${BODY_TYPES[face.type]}">
+  <div class="page">
+    <img src="../images/${imageFile}" alt="${escapeXml(alt)}"${beat ? ' xml:lang="en" lang="en"' : ''}/>
+    ${face.lettering?.length ? renderLettering(face.lettering, info.direction) : ''}
+    ${script.length ? `<section class="script" aria-label="${escapeXml(getPageLabel(face))}">\n      ${script.join('\n      ')}\n    </section>` : ''}
+  </div>
+</body>
+</html>
+`;
+};
+
+/**
+ * Table of contents split into chapters at the decision pages: a new chapter
+ * starts after each choice and is named after the choice that was made.
+ */
+const renderNav = (faces: ComicFace[], info: EpubInfo): string => {
+  const link = (face: ComicFace, label: string) => `<li><a href="pages/${pageName(face)}.xhtml">${escapeXml(label)}</a></li>`;
+  const story = faces.filter(face => face.type === 'story');
+  const chapters: string[] = [];
+  story.forEach((face, i) => {
+    const previous = story[i - 1];
+    if (!previous) chapters.push(link(face, 'Chapter 1'));
+    else if (previous.isDecisionPage) {
+      const title = `Chapter ${chapters.length + 1}`;
+      chapters.push(link(face, previous.resolvedChoice ? `${title}: ${previous.resolvedChoice}` : title));
+    }
+  });
+  const cover = faces.find(face => face.type === 'cover');
+  const backCover = faces.find(face => face.type === 'back_cover');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${info.language}" lang="${info.language}" dir="${info.direction}">
+<head>
+  <meta charset="utf-8"/>
+  <title>${escapeXml(info.title)}</title>
+</head>
+<body>
+  <nav epub:type="toc" id="toc">
+    <h1>${escapeXml(info.title)}</h1>
+    <ol>
+      ${[cover && link(cover, 'Cover'), ...chapters, backCover && link(backCover, 'Back Cover')].filter(Boolean).join('\n      ')}
+    </ol>
+  </nav>
+  <nav epub:type="landmarks" hidden="hidden">
+    <ol>
+      ${cover ? `<li><a epub:type="cover" href="pages/${pageName(cover)}.xhtml">Cover</a></li>` : ''}
+      ${story[0] ? `<li><a epub:type="bodymatter" href="pages/${pageName(story[0])}.xhtml">Start of Story</a></li>` : ''}
+    </ol>
+  </nav>
+  <nav epub:type="page-list" hidden="hidden">
+    <ol>
+      ${faces.map(face => link(face, getPageLabel(face))).join('\n      ')}
+    </ol>
+  </nav>
+</body>
+</html>
+`;
+};
+
+const renderPackage = (faces: ComicFace[], imageFiles: Map<ComicFace, { name: string; mediaType: string }>, info: EpubInfo): string => {
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const cover = faces.find(face => face.type === 'cover');
+  const manifest = faces.flatMap(face => {
+    const image = imageFiles.get(face)!;
+    return [
+      `<item id="img-${pageName(face)}" href="images/${image.name}" media-type="${image.mediaType}"${face === cover ? ' properties="cover-image"' : ''}/>`,
+      `<item id="${pageName(face)}" href="pages/${pageName(face)}.xhtml" media-type="application/xhtml+xml"${face.lettering?.length ? ' properties="svg"' : ''}/>`,
+    ];
+  });
+  const spine = faces.map(face => `<itemref idref="${pageName(face)}"/>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${info.language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(info.identifier)}</dc:identifier>
+    <dc:title>${escapeXml(info.title)}</dc:title>
+    <dc:language>${info.language}</dc:language>
+    ${info.creator ? `<dc:creator>${escapeXml(info.creator)}</dc:creator>` : ''}
+    ${info.description ? `<dc:description>${escapeXml(info.description)}</dc:description>` : ''}
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">portrait</meta>
+    <meta property="rendition:spread">landscape</meta>
+    <meta property="schema:accessMode">visual</meta>
+    <meta property="schema:accessMode">textual</meta>
+    <meta property="schema:accessibilitySummary">Each page carries its captions and dialogue as text and a description of the art.</meta>
+    ${cover ? `<meta name="cover" content="img-${pageName(cover)}"/>` : ''}
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="css" href="styles/comic.css" media-type="text/css"/>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine page-progression-direction="${info.direction}">
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`;
+};
+
+/**
+ * Fixed-layout EPUB 3: one page per face with the art, its lettering as SVG
+ * text, and the script as text for screen readers. Lettering stays live
+ * rather than baked in, so e-readers can search and read it aloud.
+ */
+export async function buildEpub(faces: ComicFace[], info: EpubInfo): Promise<Blob> {
+  const finished = faces
+    .filter((face): face is ComicFace & { imageUrl: string } => !!face.imageUrl && !face.isLoading)
+    .sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0));
+  if (finished.length === 0) throw new Error('EPUB_EMPTY: There are no finished pages to export.');
+
+  // The mimetype entry must come first and be stored uncompressed
+  const files: Zippable = { mimetype: [strToU8('application/epub+zip'), { level: 0 }] };
+  files['META-INF/container.xml'] = strToU8(CONTAINER_XML);
+
+  const imageFiles = new Map<ComicFace, { name: string; mediaType: string }>();
+  for (const face of finished) {
+    const blob = await (await fetch(face.imageUrl)).blob();
+    const mediaType = IMAGE_TYPES[blob.type] ? blob.type : 'image/jpeg';
+    const name = `${pageName(face)}.${IMAGE_TYPES[mediaType] ?? 'jpg'}`;
+    imageFiles.set(face, { name, mediaType });
+    files[`OEBPS/images/${name}`] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+    files[`OEBPS/pages/${pageName(face)}.xhtml`] = strToU8(renderPage(face, name, info));
+  }
+
+  files['OEBPS/styles/comic.css'] = strToU8(STYLESHEET);
+  files['OEBPS/nav.xhtml'] = strToU8(renderNav(finished, info));
+  files['OEBPS/content.opf'] = strToU8(renderPackage(finished, imageFiles, info));
+
+  return new Blob([zipSync(files).slice()], { type: 'application/epub+zip' });
+}
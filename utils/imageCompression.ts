@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { loadImage } from './pageCompositor';
+
 /**
  * Compresses an image file to reduce memory usage and improve performance.
  * Uses canvas to resize and compress the image.
@@ -90,6 +92,32 @@ export async function compressImage(
   });
 }
 
+/**
+ * Re-encodes an image URL as a smaller JPEG data URL, for exports where file
+ * size matters more than detail. Images already within the bounds keep their
+ * size and are only recompressed.
+ */
+export async function recompressImage(
+  src: string,
+  maxWidth: number,
+  maxHeight: number,
+  quality: number
+): Promise<string> {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxWidth / img.width, maxHeight / img.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
 /**
  * Calculates the original binary data size from a base64-encoded string.
  * 
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DEFAULT_DECISION_PAGES,
+  DEFAULT_STORY_PAGES,
+  INITIAL_PAGES,
+  MAX_STORY_PAGES,
+  MIN_STORY_PAGES,
+  StoryConfig
+} from '../types';
+
+export interface IssueLayout {
+  storyPages: number;     // Story pages between the covers
+  backCoverPage: number;  // Page index of the back cover
+  totalPages: number;     // Highest page index in the issue
+  decisionPages: number[];
+  gatePage: number;       // Page that must be inked before the cover opens; never past a decision page
+}
+
+/**
+ * Resolves the shape of an issue from its config. Out-of-range lengths are
+ * clamped and decision pages that fall outside the story are dropped, so a
+ * hand-edited or imported config can never produce an unreachable page.
+ */
+export function getIssueLayout(config: Pick<StoryConfig, 'storyPages' | 'decisionPages'>): IssueLayout {
+  const requested = Math.round(config.storyPages ?? DEFAULT_STORY_PAGES);
+  const storyPages = Math.min(MAX_STORY_PAGES, Math.max(MIN_STORY_PAGES, Number.isFinite(requested) ? requested : DEFAULT_STORY_PAGES));
+
+  // The final page ends on a cliffhanger, so it never offers a choice
+  const decisionPages = Array.from(new Set(config.decisionPages ?? DEFAULT_DECISION_PAGES))
+    .filter(page => Number.isInteger(page) && page >= 1 && page < storyPages)
+    .sort((a, b) => a - b);
+
+  return {
+    storyPages,
+    backCoverPage: storyPages + 1,
+    totalPages: storyPages + 1,
+    decisionPages,
+    gatePage: Math.min(INITIAL_PAGES, storyPages, ...decisionPages),
+  };
+}
+
+/**
+ * Parses a free-form list such as "5, 12 18" into page numbers.
+ */
+export function parseDecisionPages(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .map(part => parseInt(part, 10))
+    .filter(page => Number.isInteger(page) && page > 0);
+}
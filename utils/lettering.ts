@@ -0,0 +1,264 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Beat, ComicFace, LetteringElement, PageLayout, PanelBeat, ReadingDirection } from '../types';
+import { getPanelRect, loadImage } from './pageCompositor';
+import { getPanelBeats } from './pageLayouts';
+
+// Lettering is laid out on a fixed 2:3 page and scaled to whatever size it is drawn at
+export const LETTERING_PAGE_WIDTH = 1000;
+export const LETTERING_PAGE_HEIGHT = 1500;
+export const LETTERING_STROKE = 4;
+
+const FONT_SIZE: Record<LetteringElement['kind'], number> = { caption: 30, balloon: 32 };
+const LINE_HEIGHT = 1.2;
+const PADDING = 16;
+const TAIL_HALF_WIDTH = 16;
+const CAPTION_FILL = '#fff7c2';
+const BALLOON_FILL = '#ffffff';
+const JPEG_QUALITY = 0.92;
+
+export const getLetteringFont = (kind: LetteringElement['kind']): string =>
+  `bold ${FONT_SIZE[kind]}px 'Comic Neue', sans-serif`;
+
+/**
+ * Resolved geometry of one element in lettering-page units. Both the on-screen
+ * layer and the PDF bake draw from this, so line breaks match exactly.
+ */
+export interface LetteringBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+  lines: string[];
+  fontSize: number;
+  lineHeight: number;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getMeasureContext = (): CanvasRenderingContext2D | null => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  return measureContext;
+};
+
+export const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.length ? lines : [''];
+};
+
+export function measureLettering(element: LetteringElement): LetteringBox {
+  const fontSize = FONT_SIZE[element.kind];
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const maxWidth = element.width * LETTERING_PAGE_WIDTH;
+  const ctx = getMeasureContext();
+
+  let lines = [element.text];
+  let width = maxWidth;
+  if (ctx) {
+    ctx.font = getLetteringFont(element.kind);
+    lines = wrapLines(ctx, element.text, maxWidth - PADDING * 2);
+    // Balloons hug their text; captions keep their full width like a ruled box
+    if (element.kind === 'balloon') {
+      width = Math.min(maxWidth, Math.max(...lines.map(l => ctx.measureText(l).width)) + PADDING * 3);
+    }
+  }
+
+  const height = lines.length * lineHeight + PADDING * 2;
+  return {
+    x: element.x * LETTERING_PAGE_WIDTH,
+    y: element.y * LETTERING_PAGE_HEIGHT,
+    width,
+    height,
+    radius: element.kind === 'balloon' ? Math.min(height / 2, width / 2, 40) : 4,
+    lines,
+    fontSize,
+    lineHeight,
+  };
+}
+
+/**
+ * Baseline of line `index` and the x its text is anchored at. Captions are
+ * ragged on the side the text starts from, so right-to-left books anchor them
+ * at the right edge.
+ */
+export function getLinePosition(box: LetteringBox, kind: LetteringElement['kind'], index: number, direction: ReadingDirection = 'ltr'): { x: number; y: number } {
+  const captionX = direction === 'rtl' ? box.x + box.width - PADDING : box.x + PADDING;
+  return {
+    x: kind === 'balloon' ? box.x + box.width / 2 : captionX,
+    y: box.y + PADDING + index * box.lineHeight + box.fontSize * 0.85,
+  };
+}
+
+type TailPoint = [x: number, y: number];
+
+/**
+ * Triangle from the balloon's centre to its tail point, in lettering-page
+ * units. The balloon body covers the base, so only the tip shows.
+ */
+export function getTailPoints(box: LetteringBox, tail: { x: number; y: number }): [TailPoint, TailPoint, TailPoint] {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const tx = tail.x * LETTERING_PAGE_WIDTH;
+  const ty = tail.y * LETTERING_PAGE_HEIGHT;
+  const length = Math.hypot(tx - cx, ty - cy) || 1;
+  // Perpendicular offset so the base is a short segment across the direction of the tail
+  const px = (-(ty - cy) / length) * TAIL_HALF_WIDTH;
+  const py = ((tx - cx) / length) * TAIL_HALF_WIDTH;
+  return [[cx + px, cy + py], [cx - px, cy - py], [tx, ty]];
+}
+
+export const getLetteringFill = (kind: LetteringElement['kind']) => (kind === 'balloon' ? BALLOON_FILL : CAPTION_FILL);
+
+export const getCaptionAlign = (direction: ReadingDirection) => (direction === 'rtl' ? 'right' : 'left');
+
+/**
+ * Draws lettering onto a canvas whose page is `scaleX`/`scaleY` times the
+ * lettering page. Outlines go down before fills so a tail joins its balloon
+ * without a seam.
+ */
+export function drawLettering(ctx: CanvasRenderingContext2D, elements: LetteringElement[], scaleX: number, scaleY: number, direction: ReadingDirection = 'ltr'): void {
+  ctx.save();
+  ctx.direction = direction;
+  ctx.scale(scaleX, scaleY);
+  ctx.lineWidth = LETTERING_STROKE;
+  ctx.strokeStyle = '#000000';
+  ctx.lineJoin = 'round';
+
+  elements.forEach(element => {
+    const box = measureLettering(element);
+    const tail = element.kind === 'balloon' && element.tail ? getTailPoints(box, element.tail) : null;
+
+    const traceTail = () => {
+      if (!tail) return false;
+      ctx.beginPath();
+      ctx.moveTo(...tail[0]);
+      ctx.lineTo(...tail[2]);
+      ctx.lineTo(...tail[1]);
+      ctx.closePath();
+      return true;
+    };
+    const traceBox = () => {
+      ctx.beginPath();
+      ctx.roundRect(box.x, box.y, box.width, box.height, box.radius);
+    };
+
+    if (traceTail()) ctx.stroke();
+    traceBox();
+    ctx.stroke();
+    ctx.fillStyle = getLetteringFill(element.kind);
+    if (traceTail()) ctx.fill();
+    traceBox();
+    ctx.fill();
+
+    ctx.fillStyle = '#000000';
+    ctx.font = getLetteringFont(element.kind);
+    ctx.textAlign = element.kind === 'balloon' ? 'center' : getCaptionAlign(direction);
+    ctx.textBaseline = 'alphabetic';
+    box.lines.forEach((line, i) => {
+      const { x, y } = getLinePosition(box, element.kind, i, direction);
+      ctx.fillText(line, x, y);
+    });
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Returns the page image with its lettering drawn in, for exports that need
+ * a single flat image per page.
+ */
+export async function bakeLettering(imageUrl: string, elements: LetteringElement[], direction: ReadingDirection = 'ltr'): Promise<string> {
+  await Promise.all((['caption', 'balloon'] as const).map(kind => document.fonts.load(getLetteringFont(kind)).catch(() => [])));
+  const img = await loadImage(imageUrl);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.drawImage(img, 0, 0);
+  drawLettering(ctx, elements, img.width / LETTERING_PAGE_WIDTH, img.height / LETTERING_PAGE_HEIGHT, direction);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
+
+/**
+ * Finished pages in reading order, each with its lettering drawn in. A page
+ * that can't be lettered is exported as bare art rather than dropped.
+ */
+export async function flattenPages(faces: ComicFace[], direction: ReadingDirection, logTag: string): Promise<Array<{ face: ComicFace; imageUrl: string }>> {
+  const finished = faces
+    .filter((face): face is ComicFace & { imageUrl: string } => !!face.imageUrl && !face.isLoading)
+    .sort((a, b) => (a.pageIndex || 0) - (b.pageIndex || 0));
+
+  return Promise.all(finished.map(async face => {
+    if (!face.lettering?.length) return { face, imageUrl: face.imageUrl };
+    try {
+      return { face, imageUrl: await bakeLettering(face.imageUrl, face.lettering, direction) };
+    } catch (error) {
+      console.warn(`[${logTag}] Could not letter page`, face.pageIndex, error);
+      return { face, imageUrl: face.imageUrl };
+    }
+  }));
+}
+
+/**
+ * Default lettering for a freshly inked page: per panel, the caption sits
+ * top-left and the balloon below it on the right, its tail aimed into the
+ * panel (mirrored for right-to-left books). Splash pages use the whole image
+ * as their one panel.
+ */
+export function buildLettering(beat: Beat, layout: PageLayout, direction: ReadingDirection = 'ltr'): LetteringElement[] {
+  const isSplash = layout.frames.length < 2;
+  const panels: PanelBeat[] = isSplash ? [beat] : getPanelBeats(beat, layout);
+  const elements: LetteringElement[] = [];
+
+  panels.forEach((panel, i) => {
+    const frame = layout.frames[i];
+    const rect = isSplash || !frame ? { x: 0, y: 0, width: 1, height: 1 } : getPanelRect(frame);
+    const inset = 0.02;
+    // Offset of a box `width` wide from the panel's start edge, measured from the left
+    const fromStart = (offset: number, width: number) =>
+      direction === 'rtl' ? rect.x + rect.width - offset - width : rect.x + offset;
+
+    if (panel.caption) {
+      elements.push({
+        id: `caption-${i}`,
+        kind: 'caption',
+        text: panel.caption,
+        x: fromStart(inset, rect.width * 0.7),
+        y: rect.y + inset,
+        width: rect.width * 0.7,
+      });
+    }
+    if (panel.dialogue) {
+      const width = rect.width * 0.6;
+      elements.push({
+        id: `balloon-${i}`,
+        kind: 'balloon',
+        text: panel.dialogue,
+        x: fromStart(rect.width - width - inset, width),
+        y: rect.y + rect.height * (panel.caption ? 0.25 : 0.05),
+        width,
+        tail: { x: fromStart(rect.width * 0.4, 0), y: rect.y + rect.height * 0.7 },
+      });
+    }
+  });
+
+  return elements;
+}
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Zippable, zipSync } from 'fflate';
+import { getExtension } from './cbz';
+import { loadImage } from './pageCompositor';
+
+// Strip width in pixels; 800 is what webtoon platforms display and accept
+export const STRIP_WIDTH = 800;
+// Browsers refuse to draw canvases much taller than this
+const MAX_CANVAS_HEIGHT = 32000;
+const GUTTER_COLOR = '#ffffff';
+
+export interface StripOptions {
+  gutter: number;         // Space between pages, in strip pixels
+  maxSliceHeight: number; // Ignored for a single image
+  format: 'png' | 'webp';
+  single: boolean;        // One tall image instead of slices
+}
+
+interface PlacedPage {
+  img: HTMLImageElement;
+  y: number;
+  height: number;
+}
+
+const toBlob = (canvas: HTMLCanvasElement, format: StripOptions['format']): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    // Browsers without a WebP encoder hand back PNG, which the file name then follows
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode strip image')), `image/${format}`, 0.9);
+  });
+
+/**
+ * Stacks the (already lettered) story pages into one vertical strip, each
+ * scaled to the strip width with a gutter between them, and cuts it into
+ * slices no taller than `maxSliceHeight`. A single image that would be taller
+ * than the browser can draw is scaled down to fit instead.
+ */
+export async function renderLongStrip(imageUrls: string[], options: StripOptions): Promise<Blob[]> {
+  if (imageUrls.length === 0) throw new Error('STRIP_EMPTY: There are no finished story pages to export yet.');
+
+  const images = await Promise.all(imageUrls.map(loadImage));
+  const gutter = Math.max(0, Math.round(options.gutter));
+  let y = 0;
+  const placed: PlacedPage[] = images.map((img, i) => {
+    const height = Math.round(img.naturalHeight * (STRIP_WIDTH / img.naturalWidth));
+    const page = { img, y: y + (i > 0 ? gutter : 0), height };
+    y = page.y + height;
+    return page;
+  });
+  const totalHeight = y;
+
+  const scale = options.single ? Math.min(1, MAX_CANVAS_HEIGHT / totalHeight) : 1;
+  const sliceHeight = options.single
+    ? totalHeight
+    : Math.min(MAX_CANVAS_HEIGHT, Math.max(STRIP_WIDTH / 2, Math.round(options.maxSliceHeight)));
+
+  const slices: Blob[] = [];
+  for (let top = 0; top < totalHeight; top += sliceHeight) {
+    const height = Math.min(sliceHeight, totalHeight - top);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(STRIP_WIDTH * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+
+    ctx.scale(scale, scale);
+    ctx.fillStyle = GUTTER_COLOR;
+    ctx.fillRect(0, 0, STRIP_WIDTH, height);
+    // Pages crossing the cut are drawn on both slices, each showing its own part
+    placed
+      .filter(page => page.y < top + height && page.y + page.height > top)
+      .forEach(page => ctx.drawImage(page.img, 0, page.y - top, STRIP_WIDTH, page.height));
+
+    slices.push(await toBlob(canvas, options.format));
+  }
+  return slices;
+}
+
+/**
+ * Zips the slices as strip-001.png, strip-002.png... in reading order, the
+ * way webtoon uploaders and long-strip readers expect them.
+ */
+export async function packStripSlices(slices: Blob[]): Promise<Blob> {
+  const files: Zippable = {};
+  const digits = Math.max(3, String(slices.length).length);
+  for (const [i, slice] of slices.entries()) {
+    files[`strip-${String(i + 1).padStart(digits, '0')}.${getExtension(slice.type)}`] = [new Uint8Array(await slice.arrayBuffer()), { level: 0 }];
+  }
+  return new Blob([zipSync(files).slice()], { type: 'application/zip' });
+}
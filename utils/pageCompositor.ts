@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PageLayout, PanelFrame } from '../types';
+
+// Composited pages keep the 2:3 shape of single-panel pages
+const PAGE_WIDTH = 1024;
+const PAGE_HEIGHT = 1536;
+const MARGIN = 28;
+const GUTTER = 18;
+const BORDER = 6;
+const JPEG_QUALITY = 0.9;
+const EDGE_EPSILON = 1e-6; // Frames are thirds, so page edges aren't always exactly 0 or 1
+
+const isInner = (edge: number) => edge > EDGE_EPSILON && edge < 1 - EDGE_EPSILON;
+
+/**
+ * Where a frame lands on a composited page, in fractions of the page, after
+ * margins and gutters. Lettering uses it to place text inside each panel.
+ */
+export function getPanelRect(frame: PanelFrame): { x: number; y: number; width: number; height: number } {
+  const liveWidth = PAGE_WIDTH - MARGIN * 2;
+  const liveHeight = PAGE_HEIGHT - MARGIN * 2;
+
+  // Half a gutter on each inner edge so neighbouring panels sit one gutter apart
+  const left = MARGIN + frame.x * liveWidth + (isInner(frame.x) ? GUTTER / 2 : 0);
+  const top = MARGIN + frame.y * liveHeight + (isInner(frame.y) ? GUTTER / 2 : 0);
+  const right = MARGIN + (frame.x + frame.w) * liveWidth - (isInner(frame.x + frame.w) ? GUTTER / 2 : 0);
+  const bottom = MARGIN + (frame.y + frame.h) * liveHeight - (isInner(frame.y + frame.h) ? GUTTER / 2 : 0);
+
+  return { x: left / PAGE_WIDTH, y: top / PAGE_HEIGHT, width: (right - left) / PAGE_WIDTH, height: (bottom - top) / PAGE_HEIGHT };
+}
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    // Remote panels must allow CORS or the canvas can't be exported
+    if (!src.startsWith('data:')) img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load panel image'));
+    img.src = src;
+  });
+
+/**
+ * Draws `img` into the box, scaled to cover it and cropped around the centre.
+ */
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.max(w / img.width, h / img.height);
+  const sw = w / scale;
+  const sh = h / scale;
+  ctx.drawImage(img, (img.width - sw) / 2, (img.height - sh) / 2, sw, sh, x, y, w, h);
+};
+
+/**
+ * Renders the panel images of one page into a single bordered page with
+ * gutters, in the layout's reading order. Returns a JPEG data URL that Book
+ * and the PDF export use like any single-panel page.
+ */
+export async function composePage(layout: PageLayout, panelUrls: string[]): Promise<string> {
+  const images = await Promise.all(panelUrls.map(loadImage));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH;
+  canvas.height = PAGE_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+
+  layout.frames.forEach((frame, i) => {
+    const img = images[i];
+    if (!img) return;
+
+    const rect = getPanelRect(frame);
+    const left = rect.x * PAGE_WIDTH;
+    const top = rect.y * PAGE_HEIGHT;
+    const width = rect.width * PAGE_WIDTH;
+    const height = rect.height * PAGE_HEIGHT;
+
+    drawCover(ctx, img, left, top, width, height);
+    ctx.lineWidth = BORDER;
+    ctx.strokeStyle = '#000000';
+    ctx.strokeRect(left, top, width, height);
+  });
+
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Beat, PAGE_LAYOUTS, PageLayout, PanelBeat, PanelFrame, StoryConfig } from '../types';
+
+const FOCUS_CHARS: PanelBeat['focus_char'][] = ['hero', 'friend', 'other'];
+
+/**
+ * Layout used for the story pages of this config. Unknown ids (e.g. from an
+ * issue saved by a newer build) fall back to a single splash panel.
+ */
+export function getPageLayout(config: Pick<StoryConfig, 'pageLayout'>): PageLayout {
+  return PAGE_LAYOUTS.find(layout => layout.id === config.pageLayout) ?? PAGE_LAYOUTS[0]!;
+}
+
+/**
+ * The layout flipped left to right, so panels in reading order run from the
+ * right edge of the page.
+ */
+export function mirrorPageLayout(layout: PageLayout): PageLayout {
+  return { ...layout, frames: layout.frames.map(frame => ({ ...frame, x: 1 - frame.x - frame.w })) };
+}
+
+/**
+ * Page-layout section of the beat prompt. Empty for splash pages, which keep
+ * the original single-panel JSON shape.
+ */
+export function describePanelLayout(config: Pick<StoryConfig, 'pageLayout'>, langName: string): string {
+  const layout = getPageLayout(config);
+  if (layout.frames.length < 2) return '';
+
+  const shapes = layout.frames.map((frame, i) => `${i + 1}: ${getFrameShape(frame)}`).join(', ');
+  return `
+PAGE LAYOUT: ${layout.name}. This page has EXACTLY ${layout.frames.length} panels in reading order (${shapes}).
+Add a "panels" array with ${layout.frames.length} objects, each { "caption": "in ${langName}, optional", "dialogue": "in ${langName}, optional", "scene": "IN ENGLISH, framed for its panel shape", "focus_char": "hero" OR "friend" OR "other" }.
+The panels must flow as one continuous page; the top-level caption, dialogue and scene summarize the whole page.
+`;
+}
+
+/**
+ * Orientation of a frame on a 2:3 page, used to steer the artist's composition.
+ */
+export function getFrameShape(frame: PanelFrame): 'wide' | 'tall' | 'square' {
+  const aspect = (frame.w * 2) / (frame.h * 3);
+  if (aspect > 1.25) return 'wide';
+  if (aspect < 0.8) return 'tall';
+  return 'square';
+}
+
+/**
+ * Exactly one panel beat per frame of the layout. Missing panels are filled
+ * from the page's own beat so a model that ignored the layout still inks a
+ * full page; extra panels are dropped.
+ */
+export function getPanelBeats(beat: Beat, layout: PageLayout): PanelBeat[] {
+  const written = Array.isArray(beat.panels) ? beat.panels.filter(panel => panel && typeof panel.scene === 'string' && panel.scene.trim()) : [];
+
+  return layout.frames.map((_frame, i) => {
+    const panel = written[i];
+    if (!panel) {
+      // Only the first filler carries the page's text so it isn't lettered twice
+      return i === written.length
+        ? { caption: beat.caption, dialogue: beat.dialogue, scene: beat.scene, focus_char: beat.focus_char }
+        : { scene: beat.scene, focus_char: beat.focus_char };
+    }
+    return {
+      caption: panel.caption || undefined,
+      dialogue: panel.dialogue || undefined,
+      scene: panel.scene,
+      focus_char: FOCUS_CHARS.includes(panel.focus_char) ? panel.focus_char : beat.focus_char,
+    };
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import jsPDF from 'jspdf';
+import { ExportRange, Settings } from '../context/SettingsContext';
+import { ComicFace, ReadingDirection } from '../types';
+import { recompressImage } from './imageCompression';
+import { flattenPages, wrapLines } from './lettering';
+
+interface PdfPreset {
+  width: number;  // Trim size in points
+  height: number;
+  bleed: number;  // Extra art on every side, trimmed off by the printer
+  recompress?: { maxWidth: number; maxHeight: number; quality: number };
+}
+
+/**
+ * Page setups per `Settings.pdfQuality`. Print uses the US comic trim of
+ * 6.625 x 10.1875 in with a 0.125 in bleed; the art is scaled to cover the
+ * bleed so no white edge survives the cut.
+ */
+const PDF_PRESETS: Record<Settings['pdfQuality'], PdfPreset> = {
+  compact: { width: 480, height: 720, bleed: 0, recompress: { maxWidth: 720, maxHeight: 1080, quality: 0.6 } },
+  standard: { width: 480, height: 720, bleed: 0 },
+  print: { width: 477, height: 733.5, bleed: 9 },
+};
+
+export interface PdfOptions {
+  quality: Settings['pdfQuality'];
+  range: ExportRange;
+  includeMetadata: boolean;
+  direction: ReadingDirection;
+  title: string;
+  language: string; // LANGUAGES code
+  author?: string;  // Model that wrote the script
+  genre?: string;
+  summary?: string;
+}
+
+/**
+ * Faces of the chosen export range, in reading order.
+ */
+export function filterExportRange(faces: ComicFace[], range: ExportRange): ComicFace[] {
+  if (range === 'story-only') return faces.filter(face => face.type === 'story');
+  if (range === 'covers-only') return faces.filter(face => face.type !== 'story');
+  return faces;
+}
+
+// Script appendix pages are drawn on a 2:3 canvas like the art, so any script renders
+const APPENDIX_WIDTH = 1000;
+const APPENDIX_HEIGHT = 1500;
+const APPENDIX_MARGIN = 80;
+const APPENDIX_FONT = "'Comic Neue', sans-serif";
+
+interface AppendixLine {
+  text: string;
+  font: string;
+  color: string;
+  gap: number; // Space above the line
+}
+
+/**
+ * The script behind the pages: caption, dialogue, art direction and the
+ * reader's choice for every story page. Rendered with the browser's fonts
+ * rather than the PDF's built-in ones, which have no Arabic, CJK or Devanagari
+ * glyphs.
+ */
+const renderScriptAppendix = (faces: ComicFace[], direction: ReadingDirection): string[] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = APPENDIX_WIDTH;
+  canvas.height = APPENDIX_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+
+  const textWidth = APPENDIX_WIDTH - APPENDIX_MARGIN * 2;
+  const lines: AppendixLine[] = [{ text: 'SCRIPT', font: `bold 56px ${APPENDIX_FONT}`, color: '#000000', gap: 0 }];
+  const add = (text: string, font: string, color: string, gap: number) => {
+    ctx.font = font;
+    wrapLines(ctx, text, textWidth).forEach((line, i) => lines.push({ text: line, font, color, gap: i === 0 ? gap : 0 }));
+  };
+
+  faces.filter(face => face.type === 'story' && face.narrative).forEach(face => {
+    const beat = face.narrative!;
+    add(`PAGE ${face.pageIndex}`, `bold 34px ${APPENDIX_FONT}`, '#000000', 40);
+    const panels = beat.panels?.some(panel => panel.caption || panel.dialogue) ? beat.panels : [beat];
+    panels.forEach(panel => {
+      if (panel.caption) add(panel.caption, `italic 28px ${APPENDIX_FONT}`, '#222222', 10);
+      if (panel.dialogue) add(`“${panel.dialogue}”`, `bold 28px ${APPENDIX_FONT}`, '#000000', 10);
+    });
+    add(`Art: ${beat.scene}`, `22px ${APPENDIX_FONT}`, '#666666', 10);
+    if (face.resolvedChoice) add(`Choice: ${face.resolvedChoice}`, `bold 26px ${APPENDIX_FONT}`, '#1d4ed8', 10);
+  });
+
+  const pages: string[] = [];
+  let y = APPENDIX_MARGIN;
+  const startPage = () => {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, APPENDIX_WIDTH, APPENDIX_HEIGHT);
+    ctx.direction = direction;
+    ctx.textAlign = direction === 'rtl' ? 'right' : 'left';
+    ctx.textBaseline = 'top';
+    y = APPENDIX_MARGIN;
+  };
+
+  startPage();
+  lines.forEach(line => {
+    ctx.font = line.font;
+    const height = parseInt(line.font.match(/(\d+)px/)?.[1] ?? '28', 10) * 1.3;
+    if (y + line.gap + height > APPENDIX_HEIGHT - APPENDIX_MARGIN) {
+      pages.push(canvas.toDataURL('image/jpeg', 0.9));
+      startPage();
+    } else {
+      y += line.gap;
+    }
+    ctx.fillStyle = line.color;
+    ctx.fillText(line.text, direction === 'rtl' ? APPENDIX_WIDTH - APPENDIX_MARGIN : APPENDIX_MARGIN, y);
+    y += height;
+  });
+  pages.push(canvas.toDataURL('image/jpeg', 0.9));
+  return pages;
+};
+
+/**
+ * Builds the issue PDF from the export settings: the page range, the page
+ * size and compression of the quality preset, and when metadata is on the
+ * document properties plus a script appendix.
+ */
+export async function buildPdf(faces: ComicFace[], options: PdfOptions): Promise<jsPDF> {
+  const preset = PDF_PRESETS[options.quality];
+  const pageWidth = preset.width + preset.bleed * 2;
+  const pageHeight = preset.height + preset.bleed * 2;
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: [pageWidth, pageHeight] });
+  // Viewers lay out two-page spreads right to left, the way the book is bound
+  if (options.direction === 'rtl') doc.viewerPreferences({ Direction: 'R2L' });
+
+  // Lettered pages are flattened first so the PDF shows the same text as the reader
+  const selected = filterExportRange(faces, options.range);
+  const pages = await flattenPages(selected, options.direction, 'PDF Export');
+  const images = await Promise.all(pages.map(async ({ face, imageUrl }) => {
+    if (!preset.recompress) return imageUrl;
+    const { maxWidth, maxHeight, quality } = preset.recompress;
+    return recompressImage(imageUrl, maxWidth, maxHeight, quality).catch(error => {
+      console.warn('[PDF Export] Could not recompress page', face.pageIndex, error);
+      return imageUrl;
+    });
+  }));
+  if (options.includeMetadata && selected.some(face => face.type === 'story' && face.narrative)) {
+    images.push(...renderScriptAppendix(selected, options.direction));
+  }
+
+  images.forEach((imageUrl, index) => {
+    if (index > 0) doc.addPage([pageWidth, pageHeight], 'portrait');
+    // Art is scaled to cover the page; with a bleed the overhang is what the printer trims
+    const { width, height } = doc.getImageProperties(imageUrl);
+    const scale = Math.max(pageWidth / width, pageHeight / height);
+    const w = width * scale;
+    const h = height * scale;
+    doc.addImage(imageUrl, 'JPEG', (pageWidth - w) / 2, (pageHeight - h) / 2, w, h);
+  });
+
+  if (options.includeMetadata) {
+    doc.setProperties({
+      title: options.title,
+      subject: options.summary,
+      author: options.author,
+      keywords: [options.genre, options.language].filter(Boolean).join(', '),
+      creator: 'Infinite Heroes',
+    });
+    doc.setLanguage(options.language as Parameters<jsPDF['setLanguage']>[0]);
+  }
+
+  return doc;
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Zippable, strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { ComicFace, ComicIssue } from '../types';
+import { IMAGE_EXTENSIONS, getExtension, toDataUrl } from './cbz';
+
+/**
+ * A .heroes file is a zip holding project.json plus every image the issue
+ * uses, stored once each. Bump the version whenever project.json changes
+ * shape; older files must keep opening.
+ */
+export const PROJECT_FORMAT = 'infinite-heroes-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = 'heroes';
+
+// Where the reader was, restored on import so the story opens exactly as it was left
+export interface ProjectReadingState {
+  currentSheetIndex: number;
+  activeEdition: string | null;
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  exportedAt: number;
+  issue: ComicIssue; // Data URLs replaced by asset references
+  reading: ProjectReadingState;
+}
+
+const ASSET_PREFIX = 'heroes-asset:';
+const DATA_URL = /^data:(image\/[\w+.-]+);base64,/;
+const ASSET_REF = /^heroes-asset:(images\/[\w.-]+)$/;
+
+const mapStrings = (value: unknown, fn: (text: string) => string): unknown => {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)]));
+  }
+  return value;
+};
+
+const decodeBase64 = (data: string): Uint8Array => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Packs an issue with everything needed to carry on elsewhere: config and
+ * models, hero, sidekick and world with their reference images, every
+ * branch, take and edition, and the reader's place. Art that appears in
+ * several places (takes, branches, editions) is stored once.
+ */
+export function buildProjectFile(issue: ComicIssue, reading: ProjectReadingState): Blob {
+  const files: Zippable = {};
+  const assets = new Map<string, string>();
+
+  const packed = mapStrings(issue, text => {
+    const match = DATA_URL.exec(text);
+    if (!match) return text;
+    let name = assets.get(text);
+    if (!name) {
+      name = `images/${String(assets.size + 1).padStart(4, '0')}.${getExtension(match[1]!)}`;
+      assets.set(text, name);
+      files[name] = [decodeBase64(text.slice(match[0].length)), { level: 0 }];
+    }
+    return `${ASSET_PREFIX}${name}`;
+  }) as ComicIssue;
+
+  const manifest: ProjectManifest = { format: PROJECT_FORMAT, version: PROJECT_VERSION, exportedAt: Date.now(), issue: packed, reading };
+  files['project.json'] = strToU8(JSON.stringify(manifest));
+
+  return new Blob([zipSync(files).slice()], { type: 'application/zip' });
+}
+
+/**
+ * Unpacks a .heroes file. Throws PROJECT_INVALID for anything that isn't one
+ * and PROJECT_VERSION for files from a newer build than this one.
+ */
+export async function readProjectFile(file: Blob): Promise<{ issue: ComicIssue; reading: ProjectReadingState }> {
+  let entries: Record<string, Uint8Array>;
+  let manifest: Partial<ProjectManifest>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    manifest = JSON.parse(strFromU8(entries['project.json'] ?? new Uint8Array())) as Partial<ProjectManifest>;
+  } catch {
+    throw new Error('PROJECT_INVALID: This is not an Infinite Heroes project file.');
+  }
+
+  if (manifest.format !== PROJECT_FORMAT || typeof manifest.version !== 'number') {
+    throw new Error('PROJECT_INVALID: This is not an Infinite Heroes project file.');
+  }
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error('PROJECT_VERSION: This project was saved by a newer version of the app. Update to open it.');
+  }
+  const packed = manifest.issue;
+  if (!packed?.id || !Array.isArray(packed.comicFaces) || !packed.config) {
+    throw new Error('PROJECT_INVALID: The project file has no issue in it.');
+  }
+
+  const dataUrls = new Map<string, string>();
+  await Promise.all(Object.keys(entries).filter(name => name.startsWith('images/')).map(async name => {
+    const mimeType = IMAGE_EXTENSIONS[name.split('.').pop()?.toLowerCase() ?? ''] ?? 'image/jpeg';
+    dataUrls.set(name, await toDataUrl(entries[name]!, mimeType));
+  }));
+
+  const issue = mapStrings(packed, text => {
+    const match = ASSET_REF.exec(text);
+    return match ? dataUrls.get(match[1]!) ?? text : text;
+  }) as ComicIssue;
+
+  // Nothing is generating in a file, whatever state it was saved in
+  const settle = (faces: ComicFace[]) => faces.map(face => ({ ...face, isLoading: false }));
+  return {
+    issue: {
+      ...issue,
+      comicFaces: settle(issue.comicFaces),
+      branches: issue.branches?.map(branch => ({ ...branch, faces: settle(branch.faces) })),
+    },
+    reading: {
+      currentSheetIndex: Number.isInteger(manifest.reading?.currentSheetIndex) ? manifest.reading!.currentSheetIndex : 0,
+      activeEdition: typeof manifest.reading?.activeEdition === 'string' ? manifest.reading.activeEdition : null,
+    },
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LANGUAGES, ReadingDirection, StoryConfig } from '../types';
+
+/**
+ * Direction the book is read in. An explicit setting wins; otherwise it
+ * follows the language, which for a translated edition is the edition's.
+ */
+export function getReadingDirection(
+  config: Pick<StoryConfig, 'readingDirection' | 'language'>,
+  language: string = config.language
+): ReadingDirection {
+  if (config.readingDirection) return config.readingDirection;
+  return LANGUAGES.find(l => l.code === language)?.direction === 'rtl' ? 'rtl' : 'ltr';
+}